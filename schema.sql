@@ -8,9 +8,37 @@ CREATE TABLE IF NOT EXISTS cards (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     user_id TEXT NOT NULL, -- Google email from OAuth (e.g., "user@gmail.com")
     instructions TEXT NOT NULL, -- Instructions for generating practice problems
+    reference_answer TEXT, -- Optional: what a correct answer looks like
+    rubric TEXT, -- Optional: how to grade answers, so grading stays consistent between sessions
+    suspended INTEGER NOT NULL DEFAULT 0, -- 1 = left out of due lists until unsuspended
+    buried_until TIMESTAMP, -- Left out of due lists until this time (ISO 8601), NULL if not buried
+    group_id INTEGER, -- Sibling group (card_groups.id), NULL if the card has no siblings
+    deleted_at TIMESTAMP, -- When the card was moved to the trash (ISO 8601), NULL if it isn't in the trash
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Card groups: sibling cards that practise one concept (like an Anki note with several cards)
+-- e.g. "implement Dijkstra" and "analyze Dijkstra's complexity". Reviewing one card can
+-- bury its siblings for the rest of the day (bury_siblings setting)
+CREATE TABLE IF NOT EXISTS card_groups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Prerequisites: card_id depends on prerequisite_id (e.g. "dynamic programming" needs
+-- "recursion basics" first). A new card stays out of due lists until all its prerequisites
+-- reach the prerequisite_stability setting. Cycles are refused when links are added
+CREATE TABLE IF NOT EXISTS card_prerequisites (
+    card_id INTEGER NOT NULL,
+    prerequisite_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (card_id, prerequisite_id),
+    FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE,
+    FOREIGN KEY (prerequisite_id) REFERENCES cards(id) ON DELETE CASCADE
+);
+
 -- Tags table: Many-to-many relationship with cards
 -- Cards can have multiple tags, tags can apply to multiple cards
 -- Used for filtering cards by topic (e.g., "python", "algorithms")
@@ -22,6 +50,17 @@ CREATE TABLE IF NOT EXISTS tags (
     FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
 );
 
+-- Decks: tags double as hierarchical decks using "::" between levels
+-- (e.g. a card tagged "cs::algorithms::graphs" is in cs > algorithms > graphs)
+-- Filtering by a deck includes all decks below it. This table only records decks
+-- created explicitly so they exist before any card is added to them
+CREATE TABLE IF NOT EXISTS decks (
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL, -- Full path, e.g. "cs::algorithms"
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, name)
+);
+
 -- Reviews table: ONE row per card (1:1 relationship)
 -- Stores the CURRENT FSRS state for scheduling the next review
 -- This is NOT a history of all reviews - just the current state!
@@ -43,10 +82,12 @@ CREATE TABLE IF NOT EXISTS reviews (
     FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
 );
 
--- Review history: Snapshots of review state BEFORE each review
--- Used for two purposes:
+-- Review history: Snapshots of review state BEFORE each review, plus the rating given
+-- Used for four purposes:
 -- 1. Undo functionality - restore previous state if user made a mistake
 -- 2. Streak calculation - count consecutive days with reviews
+-- 3. Review log for fitting personalized FSRS parameters (see fsrs_parameters below)
+-- 4. Transcripts of what was asked and answered, so problems aren't repeated
 CREATE TABLE IF NOT EXISTS review_history (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     card_id INTEGER NOT NULL,
@@ -62,11 +103,62 @@ CREATE TABLE IF NOT EXISTS review_history (
     reps INTEGER NOT NULL,
     lapses INTEGER NOT NULL,
     last_review TIMESTAMP,
+    -- The review itself (NULL for reviews recorded before these columns existed)
+    rating INTEGER, -- 1=Again, 2=Hard, 3=Good, 4=Easy
+    reviewed_at TIMESTAMP, -- Exact time used for scheduling (ISO 8601)
+    review_elapsed_days REAL, -- Days since the previous review (NULL for the first review)
+    -- Optional transcript of the exchange (see get_card_transcripts)
+    question TEXT, -- What the tutor asked
+    user_answer TEXT, -- What the learner answered
+    feedback TEXT, -- The tutor's feedback
+    -- What else the review changed, so undo_review can put it back
+    leech_tagged INTEGER NOT NULL DEFAULT 0, -- 1 = the review added the leech tag
+    leech_suspended INTEGER NOT NULL DEFAULT 0, -- 1 = the review suspended the card as a leech
+    buried_siblings TEXT, -- JSON array of sibling card IDs the review buried, NULL if none
     -- Metadata
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- When review was submitted
     FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
 );
 
+-- Card versions: the content of a card BEFORE each edit
+-- Together with the current row in cards this gives the card's full edit history
+CREATE TABLE IF NOT EXISTS card_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    card_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    instructions TEXT NOT NULL,
+    reference_answer TEXT,
+    rubric TEXT,
+    tags TEXT NOT NULL, -- JSON array of tags
+    source TEXT, -- Where the edit that replaced this version came from: 'mcp' or 'rest' (NULL for older edits)
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, -- When the edit replaced this version
+    FOREIGN KEY (card_id) REFERENCES cards(id) ON DELETE CASCADE
+);
+
+-- FSRS parameters: ONE row per user with personalized weights
+-- Fitted from review_history by the optimizer (src/optimizer.ts)
+-- Users without a row are scheduled with the FSRS defaults
+CREATE TABLE IF NOT EXISTS fsrs_parameters (
+    user_id TEXT PRIMARY KEY,
+    parameters TEXT NOT NULL, -- JSON array of FSRS weights (w)
+    review_count INTEGER NOT NULL, -- Reviews used for fitting
+    loss_before REAL, -- Log loss of the previous weights
+    loss_after REAL, -- Log loss of the fitted weights
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Settings: scheduler preferences per user, optionally overridden per tag
+-- tag = '' holds the user's own settings; any other tag holds overrides that apply
+-- to cards with that tag (e.g. higher desired retention for "exam-critical")
+-- Only explicitly set fields are stored - everything else falls back to the defaults in code
+CREATE TABLE IF NOT EXISTS settings (
+    user_id TEXT NOT NULL,
+    tag TEXT NOT NULL DEFAULT '',
+    data TEXT NOT NULL, -- JSON object of setting name -> value
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, tag)
+);
+
 CREATE INDEX IF NOT EXISTS idx_cards_user ON cards(user_id);
 CREATE INDEX IF NOT EXISTS idx_tags_user ON tags(user_id);
 CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag);
@@ -74,13 +166,19 @@ CREATE INDEX IF NOT EXISTS idx_reviews_user ON reviews(user_id);
 CREATE INDEX IF NOT EXISTS idx_reviews_due ON reviews(due);
 CREATE INDEX IF NOT EXISTS idx_review_history_card_user ON review_history(card_id, user_id);
 CREATE INDEX IF NOT EXISTS idx_review_history_created ON review_history(created_at);
+CREATE INDEX IF NOT EXISTS idx_card_versions_card_user ON card_versions(card_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_cards_group ON cards(user_id, group_id);
+CREATE INDEX IF NOT EXISTS idx_card_prerequisites_user ON card_prerequisites(user_id);
+CREATE INDEX IF NOT EXISTS idx_cards_deleted ON cards(user_id, deleted_at);
 
 -- FTS5 (Full-Text Search) virtual table for fast text search
--- This creates an inverted index on the instructions column for search queries
+-- This creates an inverted index on the card text columns for search queries
 -- See: https://www.sqlite.org/fts5.html
 -- Virtual tables don't store data directly - they're a view over the cards table
 CREATE VIRTUAL TABLE IF NOT EXISTS cards_fts USING fts5(
-    instructions, -- Full-text indexed column (searchable)
+    instructions, -- Full-text indexed columns (searchable)
+    reference_answer,
+    rubric,
     user_id UNINDEXED, -- Included but not searchable (used for filtering)
     content='cards', -- Source table
     content_rowid='id' -- Map to cards.id
@@ -92,8 +190,8 @@ CREATE VIRTUAL TABLE IF NOT EXISTS cards_fts USING fts5(
 
 -- Trigger: After INSERT on cards, add to FTS index
 CREATE TRIGGER IF NOT EXISTS cards_ai AFTER INSERT ON cards BEGIN
-    INSERT INTO cards_fts(rowid, instructions, user_id)
-    VALUES (new.id, new.instructions, new.user_id);
+    INSERT INTO cards_fts(rowid, instructions, reference_answer, rubric, user_id)
+    VALUES (new.id, new.instructions, new.reference_answer, new.rubric, new.user_id);
 END;
 
 -- Trigger: After DELETE on cards, remove from FTS index
@@ -104,6 +202,32 @@ END;
 -- Trigger: After UPDATE on cards, update FTS index
 CREATE TRIGGER IF NOT EXISTS cards_au AFTER UPDATE ON cards BEGIN
     UPDATE cards_fts
-    SET instructions = new.instructions, user_id = new.user_id
+    SET instructions = new.instructions, reference_answer = new.reference_answer,
+        rubric = new.rubric, user_id = new.user_id
     WHERE rowid = new.id;
 END;
+
+-- Upgrading an existing database
+-- The CREATE ... IF NOT EXISTS statements above are safe to re-run, but columns added
+-- to existing tables must be added once by hand, e.g.:
+-- npx wrangler d1 execute spaced-repetition-db --remote --command="ALTER TABLE ..."
+--
+-- ALTER TABLE review_history ADD COLUMN rating INTEGER;
+-- ALTER TABLE review_history ADD COLUMN reviewed_at TIMESTAMP;
+-- ALTER TABLE review_history ADD COLUMN review_elapsed_days REAL;
+-- ALTER TABLE cards ADD COLUMN suspended INTEGER NOT NULL DEFAULT 0;
+-- ALTER TABLE cards ADD COLUMN buried_until TIMESTAMP;
+-- ALTER TABLE cards ADD COLUMN reference_answer TEXT;
+-- ALTER TABLE cards ADD COLUMN rubric TEXT;
+-- The FTS index gained columns too - drop it and its triggers, re-run this file, then rebuild:
+-- DROP TRIGGER cards_ai; DROP TRIGGER cards_ad; DROP TRIGGER cards_au; DROP TABLE cards_fts;
+-- INSERT INTO cards_fts(cards_fts) VALUES('rebuild');
+-- ALTER TABLE review_history ADD COLUMN question TEXT;
+-- ALTER TABLE review_history ADD COLUMN user_answer TEXT;
+-- ALTER TABLE review_history ADD COLUMN feedback TEXT;
+-- ALTER TABLE cards ADD COLUMN group_id INTEGER;
+-- ALTER TABLE card_versions ADD COLUMN source TEXT;
+-- ALTER TABLE cards ADD COLUMN deleted_at TIMESTAMP;
+-- ALTER TABLE review_history ADD COLUMN leech_tagged INTEGER NOT NULL DEFAULT 0;
+-- ALTER TABLE review_history ADD COLUMN leech_suspended INTEGER NOT NULL DEFAULT 0;
+-- ALTER TABLE review_history ADD COLUMN buried_siblings TEXT;
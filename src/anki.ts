@@ -0,0 +1,534 @@
+/**
+ * Anki package (.apkg) support
+ *
+ * An .apkg is a zip archive containing a SQLite collection plus a media manifest.
+ * D1 can't open arbitrary SQLite files, so the collection is loaded in memory with
+ * sql.js (SQLite compiled to WebAssembly).
+ *
+ * Only the legacy collection formats (collection.anki21 / collection.anki2) are supported.
+ * Anki 2.1.50+ defaults to a zstd-compressed collection.anki21b - users need to tick
+ * "Support older Anki versions" when exporting.
+ * See: https://github.com/ankitects/anki/blob/main/rslib/src/storage/schema11.sql
+ */
+
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+import sqlWasm from "sql.js/dist/sql-wasm.wasm";
+import { strToU8, unzipSync, zipSync } from "fflate";
+import { State, type Card, type Grade } from "ts-fsrs";
+
+export interface AnkiReview {
+	rating: Grade;
+	reviewed_at: Date;
+}
+
+// One Anki card, rendered as plain text. A note with several cards (reversed or cloze) gives
+// one of these per card
+export interface AnkiCard {
+	front: string;
+	back: string;
+	tags: string[]; // The note's tags
+	deck?: string; // e.g. "cs::algorithms"
+	reviews: AnkiReview[]; // The card's review log, oldest first
+}
+
+export interface AnkiExportReview {
+	rating: Grade;
+	reviewed_at: Date;
+	state: State; // FSRS state before the review
+	interval: number; // Days scheduled after the review
+	last_interval: number; // Days scheduled before the review
+	next_state: State; // FSRS state after the review
+	next_due: Date; // When the card came due after the review
+}
+
+export interface AnkiExportCard {
+	id: number;
+	front: string;
+	back: string;
+	tags: string[];
+	deck?: string; // Deck path such as "cs::algorithms"; cards without one go in the export deck
+	created_at: Date;
+	card: Card; // Current FSRS state
+	reviews: AnkiExportReview[]; // Oldest first
+}
+
+// Anki field separator inside notes.flds
+const FIELD_SEPARATOR = "\x1f";
+
+// revlog.type values that aren't real answers (manual reschedules, "set due date")
+const REVLOG_MANUAL_TYPES = [4, 5];
+
+// Cloze deletion: {{c1::answer}} or {{c1::answer::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+// Wrangler resolves "sql.js" to its browser build (the default build probes for Node's fs),
+// and the browser build shares sql-wasm.wasm with it
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+/**
+ * Load sql.js once per isolate using the precompiled WebAssembly module
+ */
+function loadSqlJs(): Promise<SqlJsStatic> {
+	if (!sqlJs) {
+		sqlJs = initSqlJs({
+			instantiateWasm(imports, successCallback) {
+				WebAssembly.instantiate(sqlWasm, imports).then((instance) => successCallback(instance));
+				return {};
+			},
+		});
+	}
+	return sqlJs;
+}
+
+/**
+ * Run a query and return rows as arrays of values
+ */
+function queryRows(db: Database, sql: string): SqlValue[][] {
+	const result = db.exec(sql);
+	return result.length > 0 ? result[0].values : [];
+}
+
+/**
+ * Convert Anki's HTML field content to plain text
+ */
+export function stripHtml(html: string): string {
+	return html
+		.replace(/\[sound:[^\]]*\]/g, "")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(div|p|li)>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * Front and back of one card of a note. Cloze notes hide deletion `ord + 1` on the front
+ * ("[...]" or its hint) and show the others; the back is the hidden text plus the note's
+ * second field (Back Extra). Other notes show their first two fields, swapped for the
+ * reverse card (ord 1 and up)
+ */
+function renderCard(fields: string[], ord: number): { front: string; back: string } {
+	const [first = "", second = ""] = fields;
+	if (!/\{\{c\d+::/.test(first)) {
+		const [front, back] = ord === 0 ? [first, second] : [second, first];
+		return { front: stripHtml(front), back: stripHtml(back) };
+	}
+
+	const answers: string[] = [];
+	const front = first.replace(CLOZE_PATTERN, (_, number: string, text: string, hint?: string) => {
+		if (Number(number) !== ord + 1) return text;
+		answers.push(stripHtml(text));
+		return `[${hint ?? "..."}]`;
+	});
+	const back = [answers.join(", "), stripHtml(second)].filter((part) => part).join("\n\n");
+	return { front: stripHtml(front), back };
+}
+
+/**
+ * Read deck names keyed by deck ID
+ * Newer collections have a decks table (with \x1f as hierarchy separator),
+ * older ones keep a JSON blob in col.decks
+ */
+function readDeckNames(db: Database): Map<number, string> {
+	const names = new Map<number, string>();
+
+	const hasDeckTable = queryRows(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'decks'").length > 0;
+	if (hasDeckTable) {
+		for (const [id, name] of queryRows(db, "SELECT id, name FROM decks")) {
+			names.set(Number(id), String(name).replaceAll(FIELD_SEPARATOR, "::"));
+		}
+		return names;
+	}
+
+	const [row] = queryRows(db, "SELECT decks FROM col LIMIT 1");
+	if (row && row[0]) {
+		const decks = JSON.parse(String(row[0])) as Record<string, { id: number; name: string }>;
+		for (const deck of Object.values(decks)) {
+			names.set(Number(deck.id), deck.name);
+		}
+	}
+	return names;
+}
+
+/**
+ * Parse an .apkg file into cards with their deck, tags and review log
+ */
+export async function readAnkiPackage(data: Uint8Array): Promise<AnkiCard[]> {
+	let files: Record<string, Uint8Array>;
+	try {
+		files = unzipSync(data);
+	} catch {
+		throw new Error("Not a valid .apkg file (expected a zip archive)");
+	}
+
+	const collection = files["collection.anki21"] ?? (files["collection.anki21b"] ? undefined : files["collection.anki2"]);
+	if (!collection) {
+		if (files["collection.anki21b"]) {
+			throw new Error("This package uses the Anki 2.1.50+ format. Re-export it with 'Support older Anki versions' enabled.");
+		}
+		throw new Error("No Anki collection found in package");
+	}
+
+	const SQL = await loadSqlJs();
+	const db = new SQL.Database(collection);
+
+	try {
+		const deckNames = readDeckNames(db);
+
+		const notes = new Map<number, { fields: string[]; tags: string[] }>();
+		for (const [noteId, flds, tags] of queryRows(db, "SELECT id, flds, tags FROM notes ORDER BY id")) {
+			notes.set(Number(noteId), {
+				fields: String(flds).split(FIELD_SEPARATOR),
+				tags: String(tags).split(" ").filter((tag) => tag),
+			});
+		}
+
+		// revlog.id is the review timestamp in milliseconds
+		const reviewsByCard = new Map<number, AnkiReview[]>();
+		for (const [id, cardId, ease, type] of queryRows(db, "SELECT id, cid, ease, type FROM revlog ORDER BY id")) {
+			const rating = Number(ease);
+			if (rating < 1 || rating > 4 || REVLOG_MANUAL_TYPES.includes(Number(type))) {
+				continue;
+			}
+			const reviews = reviewsByCard.get(Number(cardId)) ?? [];
+			reviews.push({ rating: rating as Grade, reviewed_at: new Date(Number(id)) });
+			reviewsByCard.set(Number(cardId), reviews);
+		}
+
+		const cards: AnkiCard[] = [];
+		for (const [cardId, noteId, deckId, ord] of queryRows(db, "SELECT id, nid, did, ord FROM cards ORDER BY nid, ord")) {
+			const note = notes.get(Number(noteId));
+			if (!note) continue;
+			const deck = deckNames.get(Number(deckId));
+
+			cards.push({
+				...renderCard(note.fields, Number(ord)),
+				tags: note.tags,
+				deck: deck && deck !== "Default" ? deck : undefined,
+				reviews: reviewsByCard.get(Number(cardId)) ?? [],
+			});
+		}
+
+		return cards;
+	} finally {
+		db.close();
+	}
+}
+
+// Legacy (schema 11) collection layout, the format every Anki version can import
+const SCHEMA_11 = `
+CREATE TABLE col (
+  id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL,
+  ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL,
+  conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL, tags text NOT NULL
+);
+CREATE TABLE notes (
+  id integer PRIMARY KEY, guid text NOT NULL, mid integer NOT NULL, mod integer NOT NULL,
+  usn integer NOT NULL, tags text NOT NULL, flds text NOT NULL, sfld integer NOT NULL,
+  csum integer NOT NULL, flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE cards (
+  id integer PRIMARY KEY, nid integer NOT NULL, did integer NOT NULL, ord integer NOT NULL,
+  mod integer NOT NULL, usn integer NOT NULL, type integer NOT NULL, queue integer NOT NULL,
+  due integer NOT NULL, ivl integer NOT NULL, factor integer NOT NULL, reps integer NOT NULL,
+  lapses integer NOT NULL, left integer NOT NULL, odue integer NOT NULL, odid integer NOT NULL,
+  flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE revlog (
+  id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL,
+  ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL,
+  type integer NOT NULL
+);
+CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const EXPORT_DECK_ID = 1;
+const EXPORT_DECK_NAME = "Spaced Repetition";
+const EXPORT_MODEL_ID = 1700000000000;
+
+/**
+ * Escape plain text for an Anki HTML field
+ */
+function toHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/\n/g, "<br>");
+}
+
+/**
+ * Anki's note checksum: first 8 hex digits of the SHA-1 of the sort field
+ */
+async function fieldChecksum(text: string): Promise<number> {
+	const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+	const bytes = new Uint8Array(digest);
+	return ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+}
+
+/**
+ * Anki ease factor (permille) from FSRS difficulty (1-10)
+ * Anki ignores it when FSRS is enabled, but SM-2 users get a sensible starting ease
+ */
+function easeFactor(difficulty: number): number {
+	if (difficulty <= 0) return 2500;
+	return Math.round(1300 + ((10 - difficulty) / 9) * 1700);
+}
+
+/**
+ * Anki revlog.type for a review given the FSRS state before it
+ */
+function revlogType(state: State): number {
+	if (state === State.Review) return 1;
+	if (state === State.Relearning) return 2;
+	return 0;
+}
+
+/**
+ * Anki revlog.ivl for a review: days for review intervals, negative seconds for learning steps
+ */
+function revlogInterval(review: AnkiExportReview): number {
+	if (review.next_state === State.Learning || review.next_state === State.Relearning) {
+		return -Math.max(1, Math.round((review.next_due.getTime() - review.reviewed_at.getTime()) / 1000));
+	}
+	return review.interval;
+}
+
+/**
+ * Deck IDs for the export deck and every deck the cards use, parents included
+ * (Anki nests decks by the "::" in their names)
+ */
+function assignDeckIds(cards: AnkiExportCard[]): Map<string, number> {
+	const ids = new Map<string, number>([[EXPORT_DECK_NAME, EXPORT_DECK_ID]]);
+	for (const { deck } of cards) {
+		if (!deck) continue;
+		const levels = deck.split("::");
+		for (let i = 1; i <= levels.length; i++) {
+			const name = levels.slice(0, i).join("::");
+			if (!ids.has(name)) ids.set(name, EXPORT_DECK_ID + ids.size);
+		}
+	}
+	return ids;
+}
+
+function buildCollectionConfig(now: number, deckIds: Map<string, number>) {
+	const deck = (id: number, name: string) => ({
+		id,
+		name,
+		mod: now,
+		usn: -1,
+		lrnToday: [0, 0],
+		revToday: [0, 0],
+		newToday: [0, 0],
+		timeToday: [0, 0],
+		collapsed: false,
+		browserCollapsed: false,
+		desc: "",
+		dyn: 0,
+		conf: 1,
+		extendNew: 0,
+		extendRev: 0,
+	});
+
+	const model = {
+		id: EXPORT_MODEL_ID,
+		name: "Spaced Repetition Card",
+		type: 0,
+		mod: now,
+		usn: -1,
+		sortf: 0,
+		did: EXPORT_DECK_ID,
+		tmpls: [
+			{
+				name: "Card 1",
+				ord: 0,
+				qfmt: "{{Front}}",
+				afmt: "{{FrontSide}}<hr id=answer>{{Back}}",
+				bqfmt: "",
+				bafmt: "",
+				did: null,
+				bfont: "",
+				bsize: 0,
+			},
+		],
+		flds: ["Front", "Back"].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+		css: ".card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }",
+		latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+		latexPost: "\\end{document}",
+		latexsvg: false,
+		req: [[0, "any", [0]]],
+		tags: [],
+		vers: [],
+	};
+
+	const deckConfig = {
+		id: 1,
+		name: "Default",
+		mod: 0,
+		usn: 0,
+		maxTaken: 60,
+		autoplay: true,
+		timer: 0,
+		replayq: true,
+		dyn: false,
+		new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+		lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+		rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+	};
+
+	return {
+		conf: { nextPos: 1, estTimes: true, activeDecks: [EXPORT_DECK_ID], sortType: "noteFld", timeLim: 0, sortBackwards: false, addToCur: true, curDeck: EXPORT_DECK_ID, newSpread: 0, dueCounts: true, curModel: EXPORT_MODEL_ID, collapseTime: 1200 },
+		models: { [EXPORT_MODEL_ID]: model },
+		decks: Object.fromEntries([...deckIds].map(([name, id]) => [id, deck(id, name)])),
+		dconf: { 1: deckConfig },
+	};
+}
+
+/**
+ * Build an .apkg with one note per card, each in its deck (or the export deck)
+ * FSRS memory state goes into cards.data ({"s": stability, "d": difficulty}),
+ * which Anki 23.10+ reads when FSRS is enabled; the SM-2 fields are filled in as well.
+ */
+export async function writeAnkiPackage(cards: AnkiExportCard[]): Promise<Uint8Array> {
+	const SQL = await loadSqlJs();
+	const db = new SQL.Database();
+
+	try {
+		db.run(SCHEMA_11);
+
+		const now = Date.now();
+		const nowSeconds = Math.floor(now / 1000);
+		const dayMs = 24 * 60 * 60 * 1000;
+
+		// Collection creation time anchors review due dates (stored as day numbers)
+		const earliest = cards.reduce(
+			(min, c) => Math.min(min, c.created_at.getTime(), c.card.due.getTime()),
+			now,
+		);
+		const crt = Math.floor(earliest / dayMs) * (dayMs / 1000);
+
+		const deckIds = assignDeckIds(cards);
+		const config = buildCollectionConfig(nowSeconds, deckIds);
+		// Day number of a time, counted from the collection creation time
+		const dayNumber = (date: Date) => Math.floor((date.getTime() / 1000 - crt) / (dayMs / 1000));
+		const today = dayNumber(new Date(now));
+		db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+			crt,
+			now,
+			now,
+			JSON.stringify(config.conf),
+			JSON.stringify(config.models),
+			JSON.stringify(config.decks),
+			JSON.stringify(config.dconf),
+		]);
+
+		// Anki IDs are millisecond timestamps; keep them unique and increasing
+		let nextId = now;
+		const revlogIds = new Set<number>();
+		let newPosition = 0;
+
+		for (const exported of cards) {
+			const noteId = nextId++;
+			const cardId = nextId++;
+			const { card } = exported;
+
+			const front = toHtml(exported.front);
+			const tags = exported.tags.map((tag) => tag.replace(/\s+/g, "_"));
+
+			db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+				noteId,
+				// Stable GUID so re-importing the export updates notes instead of duplicating them
+				`spaced-${exported.id}`,
+				EXPORT_MODEL_ID,
+				nowSeconds,
+				tags.length > 0 ? ` ${tags.join(" ")} ` : "",
+				[front, toHtml(exported.back)].join(FIELD_SEPARATOR),
+				exported.front,
+				await fieldChecksum(exported.front),
+			]);
+
+			// Map FSRS state onto Anki's type/queue/due encoding
+			let type: number;
+			let queue: number;
+			let due: number;
+			switch (card.state) {
+				case State.New:
+					type = 0;
+					queue = 0;
+					due = ++newPosition;
+					break;
+				case State.Learning:
+				case State.Relearning:
+					type = card.state === State.Learning ? 1 : 3;
+					// Steps that end on a later day go in the day-learning queue, due by day number
+					if (dayNumber(card.due) > today) {
+						queue = 3;
+						due = dayNumber(card.due);
+					} else {
+						queue = 1;
+						due = Math.floor(card.due.getTime() / 1000);
+					}
+					break;
+				default:
+					type = 2;
+					queue = 2;
+					due = dayNumber(card.due);
+			}
+
+			const memoryState =
+				card.state === State.New ? "" : JSON.stringify({ s: Number(card.stability.toFixed(4)), d: Number(card.difficulty.toFixed(4)) });
+
+			db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, ?)", [
+				cardId,
+				noteId,
+				deckIds.get(exported.deck ?? EXPORT_DECK_NAME)!,
+				nowSeconds,
+				type,
+				queue,
+				due,
+				card.state === State.Review ? Math.max(1, card.scheduled_days) : card.scheduled_days,
+				easeFactor(card.difficulty),
+				card.reps,
+				card.lapses,
+				queue === 1 || queue === 3 ? 1001 : 0,
+				memoryState,
+			]);
+
+			for (const review of exported.reviews) {
+				let revlogId = review.reviewed_at.getTime();
+				while (revlogIds.has(revlogId)) revlogId++;
+				revlogIds.add(revlogId);
+
+				db.run("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, 0, ?)", [
+					revlogId,
+					cardId,
+					review.rating,
+					revlogInterval(review),
+					review.last_interval,
+					easeFactor(card.difficulty),
+					revlogType(review.state),
+				]);
+			}
+		}
+
+		return zipSync({
+			"collection.anki2": db.export(),
+			media: strToU8("{}"),
+		});
+	} finally {
+		db.close();
+	}
+}
@@ -10,6 +10,7 @@
 
 import { Hono } from "hono";
 import { SpacedRepetition } from "./spaced-core";
+import { DUE_ORDERS, type DueOrder } from "./queue";
 
 const api = new Hono<{ Bindings: Env }>();
 
@@ -59,15 +60,21 @@ async function verifyGoogleToken(accessToken: string): Promise<string | null> {
 /**
  * GET /api/due-cards
  * 
- * Returns cards due for review today, sorted by FSRS retrievability
+ * Returns cards due for review today, by default sorted by FSRS retrievability
  * 
  * Query params:
  * - limit: number (optional) - max cards to return
  * - tags: string (optional) - comma-separated tags to filter by
+ * - order: string (optional) - retrievability_desc (default), retrievability_asc, overdue,
+ *   due_date, random, difficulty or interleave (round-robin across tags)
+ * - seed: number (optional) - seed for random order, defaults to one per study day
  * 
  * Headers:
  * - Authorization: Bearer <google_access_token>
  * 
+ * Suspended and buried cards are left out; "hidden" counts the ones that are due.
+ * Only as many new cards and reviews as the daily limits allow are returned ("limits").
+ * 
  * Response:
  * {
  *   "cards": [
@@ -77,7 +84,12 @@ async function verifyGoogleToken(accessToken: string): Promise<string | null> {
  *       "tags": ["python", "advanced"],
  *       "due": "today"
  *     }
- *   ]
+ *   ],
+ *   "hidden": { "suspended": 2, "buried": 1 },
+ *   "limits": {
+ *     "new_cards_per_day": 20, "new_today": 5, "new_remaining": 15,
+ *     "reviews_per_day": 200, "reviews_today": 40, "reviews_remaining": 160
+ *   }
  * }
  */
 api.get("/due-cards", async (c) => {
@@ -98,12 +110,24 @@ api.get("/due-cards", async (c) => {
 	const limit = c.req.query("limit") ? parseInt(c.req.query("limit")!) : undefined;
 	const tagsParam = c.req.query("tags");
 	const tags = tagsParam ? tagsParam.split(",").map(t => t.trim()) : [];
+	const order = c.req.query("order");
+	if (order !== undefined && !DUE_ORDERS.includes(order as DueOrder)) {
+		return c.json({ error: `order must be one of: ${DUE_ORDERS.join(", ")}` }, 400);
+	}
+	const seed = c.req.query("seed") ? parseInt(c.req.query("seed")!) : undefined;
+	if (seed !== undefined && !Number.isInteger(seed)) {
+		return c.json({ error: "seed must be a whole number" }, 400);
+	}
 
 	// Fetch due cards
 	const db = new SpacedRepetition(c.env.DB, userEmail);
-	const cards = await db.getDueCards(limit, tags);
+	const [cards, hidden, limits] = await Promise.all([
+		db.getDueCards(limit, tags, { order: order as DueOrder | undefined, seed }),
+		db.countHiddenCards(tags, true),
+		db.getDailyLimits(),
+	]);
 
-	return c.json({ cards });
+	return c.json({ cards, hidden, limits });
 });
 
 /**
@@ -117,13 +141,20 @@ api.get("/due-cards", async (c) => {
  * Body:
  * {
  *   "card_id": 1,
- *   "rating": 3  // 1=Again, 2=Hard, 3=Good, 4=Easy
+ *   "rating": 3,  // 1=Again, 2=Hard, 3=Good, 4=Easy
+ *   "question": "...",  // Optional transcript of the exchange
+ *   "user_answer": "...",
+ *   "feedback": "..."
  * }
  * 
  * Response:
  * {
- *   "next_review": "2025-11-05",
- *   "interval": 6
+ *   "next_review": "2025-11-05",  // study day in the user's timezone (see settings)
+ *   "days_until": 6,
+ *   "interval": 6,
+ *   "lapses": 0,
+ *   "leech": false,  // true when this review made the card a leech
+ *   "buried_siblings": 1  // sibling cards buried until the next study day
  * }
  */
 api.post("/review", async (c) => {
@@ -142,7 +173,7 @@ api.post("/review", async (c) => {
 
 	// Parse request body
 	const body = await c.req.json();
-	const { card_id, rating } = body;
+	const { card_id, rating, question, user_answer, feedback } = body;
 
 	// Validate inputs
 	if (typeof card_id !== "number") {
@@ -156,7 +187,11 @@ api.post("/review", async (c) => {
 	// Submit review
 	try {
 		const db = new SpacedRepetition(c.env.DB, userEmail);
-		const result = await db.submitReview(card_id, rating);
+		const result = await db.submitReview(card_id, rating, {
+			question: typeof question === "string" ? question : undefined,
+			user_answer: typeof user_answer === "string" ? user_answer : undefined,
+			feedback: typeof feedback === "string" ? feedback : undefined,
+		});
 
 		return c.json(result);
 	} catch (error: any) {
@@ -174,12 +209,17 @@ api.post("/review", async (c) => {
  * 
  * Response:
  * {
- *   "due_today": 5,
- *   "total": 20,
+ *   "due_today": 5,  // within today's daily limits
+ *   "held_back": 12,  // due but over the daily limits
+ *   "new_remaining_today": 15,
+ *   "reviews_remaining_today": 160,
+ *   "total": 20,  // all cards, suspended and buried ones included
  *   "cards_reviewed_last_24h": 3,
  *   "current_streak": 7,
  *   "longest_streak": 14,
- *   "total_reviews": 145
+ *   "total_reviews": 145,
+ *   "suspended": 2,
+ *   "buried": 1
  * }
  */
 api.get("/stats", async (c) => {
@@ -201,6 +241,1090 @@ api.get("/stats", async (c) => {
 	return c.json(stats);
 });
 
+/**
+ * POST /api/import/anki
+ * 
+ * Import an Anki deck (.apkg) as cards
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Query params:
+ * - include_scheduling: "true" (optional) - carry over Anki's review history (cards start as new otherwise)
+ * 
+ * Body: the .apkg file, either as the raw request body or as a multipart "file" field
+ * 
+ * Response:
+ * {
+ *   "created": [{ "index": 0, "card_id": 42 }],
+ *   "skipped": [{ "index": 1, "card_id": 7, "reason": "duplicate" }],
+ *   "failed": [{ "index": 2, "error": "Card has an empty front" }]
+ * }
+ */
+api.post("/import/anki", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	// Accept either a multipart upload or the raw file as the body
+	let data: Uint8Array;
+	if (c.req.header("Content-Type")?.startsWith("multipart/form-data")) {
+		const body = await c.req.parseBody();
+		const file = body["file"];
+		if (!(file instanceof File)) {
+			return c.json({ error: "Missing file field" }, 400);
+		}
+		data = new Uint8Array(await file.arrayBuffer());
+	} else {
+		data = new Uint8Array(await c.req.arrayBuffer());
+	}
+
+	if (data.length === 0) {
+		return c.json({ error: "Empty request body" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail);
+		const result = await db.importAnki(data, {
+			include_scheduling: c.req.query("include_scheduling") === "true",
+		});
+
+		return c.json(result);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to import deck" }, 400);
+	}
+});
+
+/**
+ * GET /api/export/anki
+ * 
+ * Download cards as an Anki deck (.apkg) with scheduling state and review history
+ * 
+ * Query params:
+ * - tags: string (optional) - comma-separated tags to filter by
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response: application/octet-stream (spaced-repetition.apkg)
+ */
+api.get("/export/anki", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const tagsParam = c.req.query("tags");
+	const tags = tagsParam ? tagsParam.split(",").map(t => t.trim()) : [];
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const data = await db.exportAnki(tags);
+
+	return new Response(data, {
+		headers: {
+			"Content-Type": "application/octet-stream",
+			"Content-Disposition": 'attachment; filename="spaced-repetition.apkg"',
+		},
+	});
+});
+
+/**
+ * POST /api/import/csv
+ * 
+ * Import cards from CSV/TSV text with a header row
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Query params:
+ * - delimiter: "comma" | "tab" (optional) - detected from the header row by default
+ * - instructions_column, tags_column, due_column: string (optional) - header names to read from
+ * 
+ * Body: CSV/TSV text
+ * 
+ * Response:
+ * {
+ *   "created": [{ "index": 0, "card_id": 42 }],
+ *   "skipped": [{ "index": 1, "card_id": 7, "reason": "duplicate" }],
+ *   "failed": [{ "index": 2, "error": "Missing instructions" }]
+ * }
+ */
+api.post("/import/csv", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const text = await c.req.text();
+	if (!text.trim()) {
+		return c.json({ error: "Empty request body" }, 400);
+	}
+
+	const delimiter = c.req.query("delimiter");
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail);
+		const result = await db.importCsv(text, {
+			delimiter: delimiter === "tab" ? "\t" : delimiter === "comma" ? "," : undefined,
+			columns: {
+				instructions: c.req.query("instructions_column"),
+				tags: c.req.query("tags_column"),
+				due: c.req.query("due_column"),
+			},
+		});
+
+		return c.json(result);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to import CSV" }, 400);
+	}
+});
+
+/**
+ * GET /api/export/csv
+ * 
+ * Download cards with their tags and FSRS state as CSV/TSV
+ * 
+ * Query params:
+ * - tags: string (optional) - comma-separated tags to filter by
+ * - delimiter: "comma" | "tab" (optional) - defaults to comma
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response: text/csv (or text/tab-separated-values)
+ * id,instructions,tags,due,state,stability,difficulty,reps,lapses
+ */
+api.get("/export/csv", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const tagsParam = c.req.query("tags");
+	const tags = tagsParam ? tagsParam.split(",").map(t => t.trim()) : [];
+	const isTsv = c.req.query("delimiter") === "tab";
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const csv = await db.exportCsv(tags, isTsv ? "\t" : ",");
+
+	return new Response(csv, {
+		headers: {
+			"Content-Type": isTsv ? "text/tab-separated-values; charset=utf-8" : "text/csv; charset=utf-8",
+			"Content-Disposition": `attachment; filename="spaced-repetition.${isTsv ? "tsv" : "csv"}"`,
+		},
+	});
+});
+
+/**
+ * GET /api/backup
+ * 
+ * Download a full JSON backup of the user's cards, tags, FSRS state and review history
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "version": 1,
+ *   "exported_at": "2025-11-05T10:00:00.000Z",
+ *   "user_id": "user@gmail.com",
+ *   "cards": [
+ *     {
+ *       "id": 1,
+ *       "instructions": "Practice Python decorators...",
+ *       "created_at": "2025-10-01 09:30:00",
+ *       "tags": ["python"],
+ *       "review": { "state": 2, "due": "2025-11-08T09:00:00.000Z", "stability": 12.3, ... },
+ *       "history": [{ "state": 0, ..., "created_at": "2025-10-01 09:35:00" }]
+ *     }
+ *   ]
+ * }
+ */
+api.get("/backup", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const backup = await db.createBackup();
+
+	c.header("Content-Disposition", 'attachment; filename="spaced-repetition-backup.json"');
+	return c.json(backup);
+});
+
+/**
+ * POST /api/restore
+ * 
+ * Restore cards from a backup (GET /api/backup) into the authenticated account.
+ * Runs as a dry run unless ?dry_run=false is passed, so the result can be checked first.
+ * Cards whose instructions and reference answer already exist, or appear earlier in the backup, are skipped.
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Query params:
+ * - dry_run: "false" (optional) - actually write the restored cards
+ * 
+ * Body: the backup JSON
+ * 
+ * Response:
+ * {
+ *   "dry_run": false,
+ *   "created": [{ "old_id": 1, "new_id": 57 }],
+ *   "skipped": [{ "old_id": 2, "card_id": 12, "reason": "duplicate" }, { "old_id": 3, "card_id": 57, "reason": "duplicate in backup" }],
+ *   "failed": []
+ * }
+ */
+api.post("/restore", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	let backup: unknown;
+	try {
+		backup = await c.req.json();
+	} catch {
+		return c.json({ error: "Body must be a JSON backup" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail);
+		const result = await db.restoreBackup(backup, c.req.query("dry_run") !== "false");
+
+		return c.json(result);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to restore backup" }, 400);
+	}
+});
+
+/**
+ * GET /api/settings
+ * 
+ * Get the user's scheduler settings and per-tag overrides
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "settings": {
+ *     "desired_retention": 0.9,
+ *     "maximum_interval": 36500,
+ *     "learning_steps": ["1m", "10m"],
+ *     "relearning_steps": ["10m"],
+ *     "enable_fuzz": false
+ *   },
+ *   "tag_overrides": {
+ *     "exam-critical": { "desired_retention": 0.95 }
+ *   }
+ * }
+ */
+api.get("/settings", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const settings = await db.getSettings();
+
+	return c.json(settings);
+});
+
+/**
+ * PUT /api/settings
+ * 
+ * Update settings, or override scheduler settings for cards with one tag.
+ * Only the fields present in the body change.
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Body:
+ * {
+ *   "tag": "exam-critical",     // optional - omit to change the user's own settings
+ *   "desired_retention": 0.95,
+ *   "reset": false              // optional - true resets to defaults / removes the tag's overrides
+ * }
+ * 
+ * Response: same as GET /api/settings
+ */
+api.put("/settings", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const body = await c.req.json();
+	const { tag, reset, ...update } = body;
+
+	if (tag !== undefined && typeof tag !== "string") {
+		return c.json({ error: "tag must be a string" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail);
+		const settings = reset ? await db.resetSettings(tag) : await db.updateSettings(update, tag);
+
+		return c.json(settings);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to update settings" }, 400);
+	}
+});
+
+/**
+ * GET /api/cards/:id/history
+ * 
+ * Get a card's full timeline: creation, each review (with the FSRS state, stability,
+ * difficulty and lapses before and after, and the interval it set) and each edit
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "card": { "id": 1, "instructions": "Practice Python decorators...", ... },
+ *   "events": [
+ *     { "type": "created", "at": "2025-10-01T09:30:00.000Z" },
+ *     {
+ *       "type": "review", "at": "2025-10-02T08:00:00.000Z", "rating": 3,
+ *       "state": { "before": "New", "after": "Review" },
+ *       "stability": { "before": 0, "after": 3.17 },
+ *       "difficulty": { "before": 0, "after": 5.28 },
+ *       "lapses": { "before": 0, "after": 0 },
+ *       "due": "2025-10-05T08:00:00.000Z", "interval_days": 3
+ *     },
+ *     {
+ *       "type": "edit", "at": "2025-10-03T12:00:00.000Z", "source": "mcp",  // "mcp", "rest" or null for older edits
+ *       "changes": { "tags": { "before": ["python"], "after": ["python", "advanced"] } }
+ *     }
+ *   ]
+ * }
+ */
+api.get("/cards/:id/history", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const cardId = Number(c.req.param("id"));
+	if (!Number.isInteger(cardId)) {
+		return c.json({ error: "Card id must be a number" }, 400);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const history = await db.getCardHistory(cardId);
+
+	if (!history) {
+		return c.json({ error: `Card ${cardId} not found` }, 404);
+	}
+
+	return c.json(history);
+});
+
+/**
+ * GET /api/cards/:id/versions
+ * 
+ * Every version of a card's content, oldest first, each with what its edit changed
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * [
+ *   {
+ *     "version": 1, "since": "2025-10-01T09:30:00.000Z", "source": null, "changes": {}, "current": false,
+ *     "content": { "instructions": "...", "reference_answer": null, "rubric": null, "tags": ["python"] }
+ *   },
+ *   {
+ *     "version": 2, "since": "2025-10-03T12:00:00.000Z", "source": "mcp", "current": true,
+ *     "content": { ... },
+ *     "changes": { "tags": { "before": ["python"], "after": ["python", "advanced"] } }
+ *   }
+ * ]
+ */
+api.get("/cards/:id/versions", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const cardId = Number(c.req.param("id"));
+	if (!Number.isInteger(cardId)) {
+		return c.json({ error: "Card id must be a number" }, 400);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const versions = await db.getCardVersions(cardId);
+
+	if (!versions) {
+		return c.json({ error: `Card ${cardId} not found` }, 404);
+	}
+
+	return c.json(versions);
+});
+
+/**
+ * PATCH /api/cards/:id
+ * 
+ * Edit a card's content. Only the fields given are changed; the previous content is
+ * kept as a version (see GET /api/cards/:id/versions)
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Body:
+ * {
+ *   "instructions": "...",  // optional
+ *   "tags": ["python", "advanced"],  // optional, replaces all tags
+ *   "reference_answer": "...",  // optional, "" to clear
+ *   "rubric": "..."  // optional, "" to clear
+ * }
+ * 
+ * Response:
+ * {
+ *   "success": true
+ * }
+ */
+api.patch("/cards/:id", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const cardId = Number(c.req.param("id"));
+	if (!Number.isInteger(cardId)) {
+		return c.json({ error: "Card id must be a number" }, 400);
+	}
+
+	const body = await c.req.json();
+	const { instructions, tags, reference_answer, rubric } = body;
+
+	if (instructions !== undefined && (typeof instructions !== "string" || !instructions.trim())) {
+		return c.json({ error: "instructions must be a non-empty string" }, 400);
+	}
+	if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string"))) {
+		return c.json({ error: "tags must be an array of strings" }, 400);
+	}
+	for (const [name, value] of Object.entries({ reference_answer, rubric })) {
+		if (value !== undefined && typeof value !== "string") {
+			return c.json({ error: `${name} must be a string` }, 400);
+		}
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail, "rest");
+	const success = await db.editCard(cardId, instructions, tags, { reference_answer, rubric });
+
+	if (!success) {
+		return c.json({ error: `Card ${cardId} not found` }, 404);
+	}
+
+	return c.json({ success: true });
+});
+
+/**
+ * POST /api/cards/:id/revert
+ * 
+ * Restore a card's content to an earlier version. The revert is recorded as a new
+ * version, so it can itself be reverted
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Body (optional):
+ * {
+ *   "version": 1  // defaults to the version before the last edit
+ * }
+ * 
+ * Response:
+ * {
+ *   "version": 1,
+ *   "changes": { "instructions": { "before": "...", "after": "..." } }
+ * }
+ */
+api.post("/cards/:id/revert", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const cardId = Number(c.req.param("id"));
+	if (!Number.isInteger(cardId)) {
+		return c.json({ error: "Card id must be a number" }, 400);
+	}
+
+	const body = await c.req.json().catch(() => ({}));
+	const { version } = body;
+
+	if (version !== undefined && !Number.isInteger(version)) {
+		return c.json({ error: "version must be a whole number" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail, "rest");
+		const result = await db.revertCard(cardId, version);
+
+		if (!result) {
+			return c.json({ error: `Card ${cardId} not found` }, 404);
+		}
+
+		return c.json(result);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to revert card" }, 400);
+	}
+});
+
+/**
+ * GET /api/forecast
+ * 
+ * Due counts per day for the next N days (today first, including overdue cards),
+ * broken down by FSRS state and tag. Each day is capped at the daily limits
+ * 
+ * Query params:
+ * - days: number (optional, default 7, max 365)
+ * - tags: string (optional) - comma-separated tags to filter by
+ * - include_lapses: "true" (optional) - add the expected number of forgotten reviews per day
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "overdue": 3,
+ *   "total": 42,
+ *   "held_back": 0,  // due in the window but pushed past it by the daily limits
+ *   "days": [
+ *     {
+ *       "date": "2025-11-05",
+ *       "due": 12,
+ *       "by_state": { "new": 2, "learning": 1, "review": 8, "relearning": 1 },
+ *       "by_tag": { "python": 5, "algorithms": 7 },
+ *       "projected_lapses": 1.2  // only with include_lapses=true
+ *     }
+ *   ]
+ * }
+ */
+api.get("/forecast", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const days = c.req.query("days") ? parseInt(c.req.query("days")!) : 7;
+	if (!Number.isInteger(days) || days < 1 || days > 365) {
+		return c.json({ error: "days must be a whole number between 1 and 365" }, 400);
+	}
+	const tagsParam = c.req.query("tags");
+	const tags = tagsParam ? tagsParam.split(",").map(t => t.trim()) : [];
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const forecast = await db.getForecast(days, tags, c.req.query("include_lapses") === "true");
+
+	return c.json(forecast);
+});
+
+/**
+ * GET /api/cards
+ * 
+ * List cards, newest first, one page at a time
+ * 
+ * Query params:
+ * - tags: string (optional) - comma-separated tags to filter by (parent decks include subdecks)
+ * - limit: number (optional) - cards per page, 1-500 (default 50)
+ * - cursor: string (optional) - next_cursor from the previous page
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "cards": [{ "id": 1, "instructions": "...", "tags": ["python"], "due": "today" }],
+ *   "total": 1234,  // matching cards across all pages
+ *   "next_cursor": "WyIyMDI1..."  // null on the last page
+ * }
+ */
+api.get("/cards", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const limit = c.req.query("limit") ? parseInt(c.req.query("limit")!) : 50;
+	if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+		return c.json({ error: "limit must be a whole number between 1 and 500" }, 400);
+	}
+	const tagsParam = c.req.query("tags");
+	const tags = tagsParam ? tagsParam.split(",").map(t => t.trim()) : [];
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail);
+		const page = await db.getAllCards(tags, { limit, cursor: c.req.query("cursor") });
+
+		return c.json(page);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to list cards" }, 400);
+	}
+});
+
+/**
+ * GET /api/search
+ * 
+ * Search cards, newest first, one page at a time. Free text is matched with full-text
+ * search over instructions, reference answers and rubrics; filters narrow it down
+ * 
+ * Query params:
+ * - q: string (required) - search query, e.g. `recursion tag:python -tag:basics is:due lapses>3`
+ *   Filters: tag:, is:(due|new|learning|review|suspended|buried|leech|blocked),
+ *   lapses/reps/stability/difficulty/interval with = > >= < <=,
+ *   created:/reviewed: with a date (created:>2026-01-01) or days (reviewed:7d); "-" negates
+ * - tags: string (optional) - comma-separated tags to filter by (parent decks include subdecks)
+ * - limit: number (optional) - cards per page, 1-500 (default 50)
+ * - cursor: string (optional) - next_cursor from the previous page
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response: same as GET /api/cards; 400 with a message for invalid syntax
+ */
+api.get("/search", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const query = c.req.query("q")?.trim();
+	if (!query) {
+		return c.json({ error: "q is required" }, 400);
+	}
+	const limit = c.req.query("limit") ? parseInt(c.req.query("limit")!) : 50;
+	if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+		return c.json({ error: "limit must be a whole number between 1 and 500" }, 400);
+	}
+	const tagsParam = c.req.query("tags");
+	const tags = tagsParam ? tagsParam.split(",").map(t => t.trim()) : [];
+
+	// Bad cursors and invalid search syntax are both the caller's to fix
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail);
+		const page = await db.searchCards(query, tags, { limit, cursor: c.req.query("cursor") });
+
+		return c.json(page);
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to search cards" }, 400);
+	}
+});
+
+/**
+ * GET /api/trash
+ * 
+ * List deleted cards still in the trash, most recently deleted first. Cards stay in the
+ * trash for the trash_retention_days setting (default 30), then are deleted for good
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * [
+ *   {
+ *     "id": 5, "instructions": "...", "tags": ["python"], "due": "today",
+ *     "deleted_at": "2025-10-03T12:00:00.000Z",
+ *     "purge_at": "2025-11-02T12:00:00.000Z"
+ *   }
+ * ]
+ */
+api.get("/trash", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const cards = await db.listTrash();
+
+	return c.json(cards);
+});
+
+/**
+ * POST /api/trash/restore
+ * 
+ * Bring cards back from the trash with their schedule, review history and tags
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Body:
+ * {
+ *   "card_ids": [5, 8, 9],
+ *   "on_duplicate": "reject"  // optional - "allow" restores cards whose instructions and answer exist again
+ * }
+ * 
+ * Response:
+ * {
+ *   "successful": [{ "card_id": 5 }],
+ *   "failed": [{ "card_id": 8, "error": "Card not in trash" }, { "card_id": 9, "error": "Duplicate of card 12 - delete or edit that card first, or restore with on_duplicate 'allow'" }]
+ * }
+ */
+api.post("/trash/restore", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const body = await c.req.json();
+	const { card_ids, on_duplicate } = body;
+
+	if (!Array.isArray(card_ids) || card_ids.length === 0 || card_ids.some((id) => typeof id !== "number")) {
+		return c.json({ error: "card_ids must be a non-empty array of numbers" }, 400);
+	}
+	if (on_duplicate !== undefined && on_duplicate !== "reject" && on_duplicate !== "allow") {
+		return c.json({ error: "on_duplicate must be 'reject' or 'allow'" }, 400);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const result = await db.restoreCardsInBatch(card_ids, on_duplicate);
+
+	return c.json(result);
+});
+
+/**
+ * DELETE /api/trash
+ * 
+ * Permanently delete cards in the trash, with their review history. Can't be undone
+ * 
+ * Query params:
+ * - card_ids: string (optional) - comma-separated IDs to delete (default: everything in the trash)
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "deleted": 3
+ * }
+ */
+api.delete("/trash", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const idsParam = c.req.query("card_ids");
+	const cardIds = idsParam ? idsParam.split(",").map((id) => Number(id.trim())) : undefined;
+	if (cardIds?.some((id) => !Number.isInteger(id))) {
+		return c.json({ error: "card_ids must be comma-separated numbers" }, 400);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const deleted = await db.emptyTrash(cardIds);
+
+	return c.json({ deleted });
+});
+
+/**
+ * GET /api/tags
+ * 
+ * Every tag in use with how many cards have it, alphabetically
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * [
+ *   { "tag": "python", "cards": 42 },
+ *   { "tag": "python::decorators", "cards": 5 }
+ * ]
+ */
+api.get("/tags", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const db = new SpacedRepetition(c.env.DB, userEmail);
+	const tags = await db.listTags();
+
+	return c.json(tags);
+});
+
+/**
+ * POST /api/tags/rename
+ * 
+ * Rename a tag on every card that has it (only the exact tag - subdecks keep their names).
+ * Renaming to a tag already in use merges them
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Body:
+ * {
+ *   "tag": "pyhton",
+ *   "new_name": "python"
+ * }
+ * 
+ * Response:
+ * {
+ *   "cards": 12  // cards retagged
+ * }
+ */
+api.post("/tags/rename", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const body = await c.req.json();
+	const { tag, new_name } = body;
+
+	if (typeof tag !== "string" || typeof new_name !== "string") {
+		return c.json({ error: "tag and new_name must be strings" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail, "rest");
+		const cards = await db.renameTag(tag, new_name);
+
+		return c.json({ cards });
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to rename tag" }, 400);
+	}
+});
+
+/**
+ * POST /api/tags/merge
+ * 
+ * Merge several tags into one: every card with any of them gets `into` instead
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Body:
+ * {
+ *   "tags": ["py", "Python"],
+ *   "into": "python"
+ * }
+ * 
+ * Response:
+ * {
+ *   "cards": 12  // cards retagged
+ * }
+ */
+api.post("/tags/merge", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const body = await c.req.json();
+	const { tags, into } = body;
+
+	if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string") || typeof into !== "string") {
+		return c.json({ error: "tags must be an array of strings and into a string" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail, "rest");
+		const cards = await db.mergeTags(tags, into);
+
+		return c.json({ cards });
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to merge tags" }, 400);
+	}
+});
+
+/**
+ * DELETE /api/tags
+ * 
+ * Remove a tag from every card that has it. The cards themselves are kept
+ * 
+ * Query params:
+ * - tag: string (required) - the exact tag to remove
+ * 
+ * Headers:
+ * - Authorization: Bearer <google_access_token>
+ * 
+ * Response:
+ * {
+ *   "cards": 3  // cards untagged
+ * }
+ */
+api.delete("/tags", async (c) => {
+	const authHeader = c.req.header("Authorization");
+	if (!authHeader || !authHeader.startsWith("Bearer ")) {
+		return c.json({ error: "Missing or invalid Authorization header" }, 401);
+	}
+
+	const accessToken = authHeader.substring(7);
+	const userEmail = await verifyGoogleToken(accessToken);
+
+	if (!userEmail) {
+		return c.json({ error: "Invalid or expired access token" }, 401);
+	}
+
+	const tag = c.req.query("tag")?.trim();
+	if (!tag) {
+		return c.json({ error: "tag is required" }, 400);
+	}
+
+	try {
+		const db = new SpacedRepetition(c.env.DB, userEmail, "rest");
+		const cards = await db.deleteTag(tag);
+
+		return c.json({ cards });
+	} catch (error: any) {
+		return c.json({ error: error.message || "Failed to delete tag" }, 404);
+	}
+});
+
 /**
  * GET /api/test-token
  * 
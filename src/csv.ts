@@ -0,0 +1,88 @@
+/**
+ * Minimal CSV/TSV reader and writer (RFC 4180 quoting)
+ *
+ * Fields containing the delimiter, quotes or newlines are wrapped in double quotes,
+ * with embedded quotes doubled ("say ""hi""").
+ */
+
+/**
+ * Guess the delimiter from the header line: tab if it has any, otherwise comma
+ */
+export function detectDelimiter(text: string): string {
+	const firstLine = text.split(/\r?\n/, 1)[0];
+	return firstLine.includes("\t") ? "\t" : ",";
+}
+
+/**
+ * Parse delimited text into rows of fields
+ * Blank lines are dropped.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+
+	// Strip a UTF-8 byte order mark (spreadsheet exports often start with one)
+	const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inQuotes) {
+			if (char === '"') {
+				if (input[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else {
+					inQuotes = false;
+				}
+			} else {
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"' && field === "") {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (inQuotes) {
+		throw new Error("Unterminated quoted field");
+	}
+
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Format rows as delimited text, quoting fields where needed
+ */
+export function formatDelimited(rows: Array<Array<string | number>>, delimiter: string): string {
+	return rows
+		.map((row) =>
+			row
+				.map((value) => {
+					const str = String(value);
+					return str.includes(delimiter) || /["\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+				})
+				.join(delimiter),
+		)
+		.join("\n");
+}
@@ -3,8 +3,10 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
 import { z } from "zod";
 import { GoogleHandler } from "./google-handler";
-import { SpacedRepetition } from "./spaced-core";
+import { DECK_SEPARATOR, SpacedRepetition, type CardChanges, type CardPage, type DuplicateMatch, type ImportResult, type RetentionGroup, type Settings, type SettingsView } from "./spaced-core";
 import { FLASHCARD_ICON } from "./icon";
+import { DUE_ORDERS, NEW_CARD_POSITIONS } from "./queue";
+import { base64ToBytes, bytesToBase64 } from "./utils";
 
 // Context from the auth process, encrypted & stored in the auth token
 // and provided to the Durable MCP as this.props
@@ -41,10 +43,83 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// All database queries in SpacedRepetition will filter by this user_id
 		const getUserDb = () => new SpacedRepetition(this.env.DB, this.props!.login);
 
+		// Helper to summarize an import the same way batch add_card does
+		// label is what each imported item is called in the source (e.g. "Note", "Row")
+		const formatImportResult = (result: ImportResult, label: string): string => {
+			let text = "";
+			if (result.created.length > 0) {
+				const ids = result.created.map((c) => c.card_id).join(", ");
+				text += `Successfully created ${result.created.length} card(s): ${ids}`;
+			}
+			if (result.skipped.length > 0) {
+				if (text) text += "\n";
+				text += `Skipped ${result.skipped.length} duplicate(s):\n`;
+				for (const { index, card_id } of result.skipped) {
+					text += `  - ${label} ${index + 1}: already exists as card ${card_id}\n`;
+				}
+			}
+			if (result.failed.length > 0) {
+				if (text) text += "\n";
+				text += `Failed to import ${result.failed.length} item(s):\n`;
+				for (const { index, error } of result.failed) {
+					text += `  - ${label} ${index + 1}: ${error}\n`;
+				}
+			}
+			return text.trim() || "Nothing to import";
+		};
+
+		// Leeches keep getting forgotten - usually the instructions are the problem, not the learner
+		const LEECH_NOTE =
+			"Leeches are usually badly worded or too broad: suggest rewriting the instructions (edit_card) or splitting the card into smaller ones.";
+
+		// Card listings are paged so thousands of cards don't flood the context
+		const DEFAULT_PAGE_SIZE = 50;
+
+		// Helper to render a page of cards, with a pointer to the next page
+		const formatCardPage = (page: CardPage): string => {
+			const formatted = page.cards
+				.map((c) => `Card ${c.id}: ${c.instructions}\nTags: ${c.tags.join(", ") || "none"}\nDue: ${c.due}`)
+				.join("\n\n");
+			const more = page.next_cursor ? ` - pass cursor: "${page.next_cursor}" for more` : "";
+			return `Showing ${page.cards.length} of ${page.total} card(s)${more}\n\n${formatted}`;
+		};
+
+		// Helper to render settings and tag overrides as "name: value" lines
+		const formatSettings = (view: SettingsView): string => {
+			const formatValue = (value: unknown) => (Array.isArray(value) ? value.join(", ") || "none" : String(value));
+
+			let text = "=== Settings ===\n";
+			for (const [key, value] of Object.entries(view.settings)) {
+				text += `  ${key}: ${formatValue(value)}\n`;
+			}
+
+			const overrides = Object.entries(view.tag_overrides);
+			if (overrides.length > 0) {
+				text += "\nTAG OVERRIDES:";
+				for (const [tag, override] of overrides) {
+					text += `\n  ${tag}:`;
+					for (const [key, value] of Object.entries(override)) {
+						text += `\n    ${key}: ${formatValue(value)}`;
+					}
+				}
+			}
+			return text.trim();
+		};
+
+		// Helper to summarize an edit: changed field names, with tags spelled out
+		const formatChanges = (changes: CardChanges): string =>
+			Object.entries(changes)
+				.map(([field, { before, after }]) =>
+					field === "tags"
+						? `tags ${(before as string[]).join(", ") || "none"} -> ${(after as string[]).join(", ") || "none"}`
+						: field,
+				)
+				.join("; ");
+
 		// Tool 1: Add a new card (supports single or batch mode)
 		this.server.tool(
 			"add_card",
-			"Add spaced repetition card(s) with instructions and optional tags. Supports single or batch mode. Examples: Single - {instructions: 'Practice Python decorators', tags: 'python,advanced'}. Batch - {cards: [{instructions: 'Practice decorators', tags: 'python'}, {instructions: 'Practice async/await', tags: 'javascript'}]}",
+			"Add spaced repetition card(s) with instructions, optional tags, and an optional reference answer and grading rubric so answers are graded the same way every session. Cards practising one concept can be linked as siblings, so reviewing one buries the others until tomorrow. New cards are checked against existing ones: exact duplicates are rejected and similar cards are created with the matching card IDs listed, unless on_duplicate says otherwise. Supports single or batch mode. Examples: Single - {instructions: 'Practice Python decorators', tags: 'python,advanced', rubric: 'Must explain closures and functools.wraps'}. Batch - {cards: [{instructions: 'Implement Dijkstra', tags: 'graphs'}, {instructions: 'Analyze Dijkstra's complexity', tags: 'graphs'}], siblings: true}",
 			{
 				instructions: z
 					.string()
@@ -60,32 +135,80 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 						"(Single mode) Comma-separated tags for organizing cards by topic. " +
 						"Example: 'python,algorithms' or 'javascript,async,advanced'"
 					),
+				reference_answer: z
+					.string()
+					.optional()
+					.describe("(Single mode) What a correct answer looks like - the standard answers are graded against"),
+				rubric: z
+					.string()
+					.optional()
+					.describe(
+						"(Single mode) How to grade answers: required points, common mistakes, what earns Hard vs Good. " +
+						"Example: 'Must mention O(log n) lookup. Forgetting rebalancing = Hard.'"
+					),
 				cards: z
 					.array(
 						z.object({
 							instructions: z.string().describe("Card instructions"),
 							tags: z.string().optional().describe("Comma-separated tags"),
+							reference_answer: z.string().optional().describe("What a correct answer looks like"),
+							rubric: z.string().optional().describe("How to grade answers"),
 						})
 					)
 					.optional()
 					.describe("(Batch mode) Array of cards to create at once"),
+				siblings: z
+					.boolean()
+					.optional()
+					.describe("(Batch mode) Link the new cards as siblings - different angles on one concept"),
+				sibling_of: z
+					.number()
+					.optional()
+					.describe("ID of an existing card to add the new card(s) as siblings of"),
+				on_duplicate: z
+					.enum(["reject", "merge", "allow"])
+					.optional()
+					.describe(
+						"What to do when a card's instructions match or closely resemble an existing card: 'reject' it, " +
+						"'merge' its tags and missing reference answer/rubric into the existing card, or 'allow' it anyway. " +
+						"Default: reject identical instructions, allow similar ones"
+					),
 			},
-			async ({ instructions, tags, cards }) => {
+			async ({ instructions, tags, reference_answer, rubric, cards, siblings, sibling_of, on_duplicate }) => {
 				const toolStart = Date.now();
 				console.log('[PERF] add_card tool called');
 				const db = getUserDb();
+				const formatMatches = (duplicates: DuplicateMatch[]) =>
+					duplicates.map((d) => `${d.card_id} (${Math.round(d.similarity * 100)}% similar)`).join(", ");
 
 				// Batch mode
 				if (cards && cards.length > 0) {
 					const createdIds: number[] = [];
+					const merged: Array<{ index: number; card_id: number }> = [];
+					const rejected: Array<{ index: number; duplicates: DuplicateMatch[] }> = [];
+					const similar: Array<{ index: number; duplicates: DuplicateMatch[] }> = [];
 					const failed: Array<{ index: number; error: string }> = [];
 
 					for (let i = 0; i < cards.length; i++) {
 						try {
 							const card = cards[i];
 							const tagArray = card.tags ? card.tags.split(",").map((t) => t.trim()) : [];
-							const cardId = await db.addCard(card.instructions, tagArray);
-							createdIds.push(cardId);
+							// Siblings join the group of the first card created
+							const siblingOf = sibling_of ?? (siblings ? createdIds[0] : undefined);
+							const result = await db.addCardWithDuplicateCheck(
+								card.instructions,
+								tagArray,
+								{ reference_answer: card.reference_answer, rubric: card.rubric },
+								{ sibling_of: siblingOf, on_duplicate },
+							);
+							if (result.action === "created") {
+								createdIds.push(result.card_id!);
+								if (result.duplicates.length > 0) similar.push({ index: i, duplicates: result.duplicates });
+							} else if (result.action === "merged") {
+								merged.push({ index: i, card_id: result.card_id! });
+							} else {
+								rejected.push({ index: i, duplicates: result.duplicates });
+							}
 						} catch (error) {
 							failed.push({
 								index: i,
@@ -97,6 +220,28 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					let text = "";
 					if (createdIds.length > 0) {
 						text += `Successfully created ${createdIds.length} card(s): ${createdIds.join(", ")}`;
+						if (sibling_of !== undefined) {
+							text += ` (siblings of card ${sibling_of})`;
+						} else if (siblings && createdIds.length > 1) {
+							text += " (linked as siblings)";
+						}
+						for (const { index, duplicates } of similar) {
+							text += `\n  - Card ${index + 1} is similar to existing card(s) ${formatMatches(duplicates)}`;
+						}
+					}
+					if (merged.length > 0) {
+						if (text) text += "\n";
+						text += `Merged ${merged.length} duplicate(s) into existing cards:\n`;
+						for (const { index, card_id } of merged) {
+							text += `  - Card ${index + 1} -> card ${card_id}\n`;
+						}
+					}
+					if (rejected.length > 0) {
+						if (text) text += "\n";
+						text += `Skipped ${rejected.length} duplicate(s) (on_duplicate: 'merge' or 'allow' to change this):\n`;
+						for (const { index, duplicates } of rejected) {
+							text += `  - Card ${index + 1}: matches existing card(s) ${formatMatches(duplicates)}\n`;
+						}
 					}
 					if (failed.length > 0) {
 						if (text) text += "\n";
@@ -114,10 +259,37 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 				// Single mode (backward compatible)
 				if (instructions !== undefined) {
 					const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
-					const cardId = await db.addCard(instructions, tagArray);
-					return {
-						content: [{ text: `Created card ${cardId}`, type: "text" }],
-					};
+					try {
+						const result = await db.addCardWithDuplicateCheck(
+							instructions,
+							tagArray,
+							{ reference_answer, rubric },
+							{ sibling_of, on_duplicate },
+						);
+
+						let text: string;
+						if (result.action === "rejected") {
+							text =
+								`Not created - duplicate of existing card(s) ${formatMatches(result.duplicates)}:\n` +
+								result.duplicates.map((d) => `  - Card ${d.card_id}: ${d.instructions}`).join("\n") +
+								`\nUse on_duplicate: 'merge' to add the new tags and grading material to card ${result.duplicates[0].card_id}, or 'allow' to create it anyway.`;
+						} else if (result.action === "merged") {
+							text = `Merged into existing card ${result.card_id} (matches ${formatMatches(result.duplicates)})`;
+						} else {
+							text = `Created card ${result.card_id}${sibling_of !== undefined ? ` as a sibling of card ${sibling_of}` : ""}`;
+							if (result.duplicates.length > 0) {
+								text += `\nSimilar existing card(s): ${formatMatches(result.duplicates)}`;
+							}
+						}
+
+						return {
+							content: [{ text, type: "text" }],
+						};
+					} catch (error) {
+						return {
+							content: [{ text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`, type: "text" }],
+						};
+					}
 				}
 
 				// Invalid input
@@ -135,7 +307,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// Tool 2: Get due cards
 		this.server.tool(
 			"get_due_cards",
-			"Get cards that are due for review today, sorted by FSRS retrievability (cards you're about to forget appear first). Example: Get 5 due cards tagged 'algorithms'",
+			"Get cards that are due for review today. By default cards most likely to be remembered come first (FSRS recommendation for clearing a backlog); other orders are available. Example: Get 5 due cards tagged 'algorithms' in random order",
 			{
 				limit: z
 					.number()
@@ -148,30 +320,63 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					.string()
 					.optional()
 					.describe(
-						"Filter by comma-separated tags. " +
-						"Example: 'python,algorithms' returns only cards with those tags"
+						"Filter by comma-separated tags. Parent decks include their subdecks. " +
+						"Example: 'python,algorithms' returns only cards with those tags, 'cs' also returns cards tagged 'cs::algorithms'"
+					),
+				order: z
+					.enum(DUE_ORDERS)
+					.optional()
+					.describe(
+						"Order to present cards in: 'retrievability_desc' (default, most likely remembered first), 'retrievability_asc' (closest to forgotten first), " +
+						"'overdue' (most overdue relative to interval), 'due_date', 'random', 'difficulty' (hardest first) or 'interleave' (alternate between tags)"
 					),
+				seed: z
+					.number()
+					.int()
+					.optional()
+					.describe("Seed for 'random' order - the same seed gives the same order. Defaults to one per day"),
 			},
-			async ({ limit, tags }) => {
+			async ({ limit, tags, order, seed }) => {
 				const db = getUserDb();
 				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
-				const cards = await db.getDueCards(limit, tagArray);
+				const [cards, hidden, daily] = await Promise.all([
+					db.getDueCards(limit, tagArray, { order, seed }),
+					db.countHiddenCards(tagArray, true),
+					db.getDailyLimits(),
+				]);
+
+				const notes: string[] = [];
+				if (hidden.suspended + hidden.buried > 0) {
+					notes.push(`(${hidden.suspended} suspended and ${hidden.buried} buried card(s) hidden)`);
+				}
+				if (hidden.blocked > 0) {
+					notes.push(`(${hidden.blocked} new card(s) waiting on prerequisites - see get_learning_path)`);
+				}
+				if (daily.reviews_remaining === 0) {
+					notes.push(`(Daily review limit of ${daily.reviews_per_day} reached - only cards in learning steps are shown)`);
+				} else if (daily.new_remaining === 0) {
+					notes.push(`(Daily limit of ${daily.new_cards_per_day} new cards reached - more new cards tomorrow)`);
+				}
+				const hiddenNote = notes.join("\n");
 
 				if (cards.length === 0) {
 					return {
-						content: [{ text: "No cards due for review", type: "text" }],
+						content: [{ text: ["No cards due for review", hiddenNote].filter(Boolean).join(" "), type: "text" }],
 					};
 				}
 
+				// Reference answer and rubric are the fixed standard for grading - don't invent a new one
 				const formatted = cards
-					.map(
-						(c) =>
-							`Card ${c.id}: ${c.instructions}\nTags: ${c.tags.join(", ") || "none"}\nDue: ${c.due}`,
-					)
+					.map((c) => {
+						let text = `Card ${c.id}: ${c.instructions}`;
+						if (c.reference_answer) text += `\nReference answer: ${c.reference_answer}`;
+						if (c.rubric) text += `\nRubric: ${c.rubric}`;
+						return `${text}\nTags: ${c.tags.join(", ") || "none"}\nDue: ${c.due}`;
+					})
 					.join("\n\n");
 
 				return {
-					content: [{ text: formatted, type: "text" }],
+					content: [{ text: hiddenNote ? `${formatted}\n\n${hiddenNote}` : formatted, type: "text" }],
 				};
 			},
 		);
@@ -179,14 +384,14 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// Tool 3: Search cards (supports single or batch mode)
 		this.server.tool(
 			"search_cards",
-			"Search cards using full-text search (FTS5) with optional tag filtering. Supports single or batch mode. Examples: Single - {query: 'binary tree', tags: 'algorithms'}. Batch - {searches: [{query: 'recursion', tags: 'python'}, {query: 'async', tags: 'javascript'}]}",
+			"Search cards with free text (full-text search over instructions, reference answers and rubrics) plus filters: tag:python, is:due/new/learning/review/suspended/buried/leech/blocked, lapses>3, reps>=10, stability<5, difficulty>7, interval>30, created:>2026-01-01, reviewed:7d (last 7 days). Prefix any term with - to exclude it; quote phrases and values with spaces or colons. Results come newest first in pages (limit, cursor). Supports single or batch mode. Examples: Single - {query: 'binary tree tag:algorithms -is:new lapses>2'}. Batch - {searches: [{query: 'recursion', tags: 'python'}, {query: 'async', tags: 'javascript'}]}",
 			{
 				query: z
 					.string()
 					.optional()
 					.describe(
-						"(Single mode) Search query text to match against card instructions. " +
-						"Example: 'recursion' or 'async await' or 'sorting algorithms'"
+						"(Single mode) Search query: free text and filters, all of which must match. " +
+						"Example: 'recursion' or '\"dynamic programming\" tag:python -tag:basics is:due' or 'stability<5 reviewed:7d'"
 					),
 				tags: z
 					.string()
@@ -195,6 +400,16 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 						"(Single mode) Filter results by comma-separated tags. " +
 						"Example: 'python,algorithms' returns only matching cards with those tags"
 					),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.optional()
+					.describe(`Maximum cards to return per search (default ${DEFAULT_PAGE_SIZE})`),
+				cursor: z
+					.string()
+					.optional()
+					.describe("(Single mode) Cursor from a previous result to get the next page"),
 				searches: z
 					.array(
 						z.object({
@@ -205,7 +420,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					.optional()
 					.describe("(Batch mode) Array of searches to perform at once"),
 			},
-			async ({ query, tags, searches }) => {
+			async ({ query, tags, limit, cursor, searches }) => {
 				const db = getUserDb();
 
 				// Batch mode
@@ -213,6 +428,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					const batchInput = searches.map(s => ({
 						query: s.query,
 						tags: s.tags ? s.tags.split(",").map((t) => t.trim()) : undefined,
+						limit: limit ?? DEFAULT_PAGE_SIZE,
 					}));
 
 					const result = await db.searchCardsInBatch(batchInput);
@@ -221,8 +437,8 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 
 					if (result.successful.length > 0) {
 						text += `Successfully searched ${result.successful.length} quer${result.successful.length === 1 ? 'y' : 'ies'}:\n\n`;
-						for (const { query, cards } of result.successful) {
-							text += `Query: "${query}"\n`;
+						for (const { query, cards, total } of result.successful) {
+							text += `Query: "${query}"${total > cards.length ? ` (showing ${cards.length} of ${total})` : ""}\n`;
 							if (cards.length === 0) {
 								text += "  No cards found\n\n";
 							} else {
@@ -251,24 +467,23 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 				// Single mode (backward compatible)
 				if (query !== undefined) {
 					const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
-					const cards = await db.searchCards(query, tagArray);
+					try {
+						const page = await db.searchCards(query, tagArray, { limit: limit ?? DEFAULT_PAGE_SIZE, cursor });
+
+						if (page.cards.length === 0) {
+							return {
+								content: [{ text: "No cards found", type: "text" }],
+							};
+						}
 
-					if (cards.length === 0) {
 						return {
-							content: [{ text: "No cards found", type: "text" }],
+							content: [{ text: formatCardPage(page), type: "text" }],
+						};
+					} catch (error) {
+						return {
+							content: [{ text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`, type: "text" }],
 						};
 					}
-
-					const formatted = cards
-						.map(
-							(c) =>
-								`Card ${c.id}: ${c.instructions}\nTags: ${c.tags.join(", ") || "none"}\nDue: ${c.due}`,
-						)
-						.join("\n\n");
-
-					return {
-						content: [{ text: formatted, type: "text" }],
-					};
 				}
 
 				// Invalid input
@@ -286,41 +501,48 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// Tool 4: Get all cards
 		this.server.tool(
 			"get_all_cards",
-			"Get all cards with optional tag filtering",
+			`Get all cards with optional tag filtering, newest first, ${DEFAULT_PAGE_SIZE} at a time by default. Pass the returned cursor to get the next page`,
 			{
 				tags: z
 					.string()
 					.optional()
-					.describe("Filter by comma-separated tags (e.g., 'python,algorithms')"),
+					.describe("Filter by comma-separated tags (e.g., 'python,algorithms'). Parent decks include their subdecks"),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.optional()
+					.describe(`Maximum cards to return (default ${DEFAULT_PAGE_SIZE})`),
+				cursor: z.string().optional().describe("Cursor from a previous result to get the next page"),
 			},
-			async ({ tags }) => {
+			async ({ tags, limit, cursor }) => {
 				const db = getUserDb();
 				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
-				const cards = await db.getAllCards(tagArray);
 
-				if (cards.length === 0) {
+				try {
+					const page = await db.getAllCards(tagArray, { limit: limit ?? DEFAULT_PAGE_SIZE, cursor });
+
+					if (page.cards.length === 0) {
+						return {
+							content: [{ text: "No cards found", type: "text" }],
+						};
+					}
+
+					return {
+						content: [{ text: formatCardPage(page), type: "text" }],
+					};
+				} catch (error) {
 					return {
-						content: [{ text: "No cards found", type: "text" }],
+						content: [{ text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`, type: "text" }],
 					};
 				}
-
-				const formatted = cards
-					.map(
-						(c) =>
-							`Card ${c.id}: ${c.instructions}\nTags: ${c.tags.join(", ") || "none"}\nDue: ${c.due}`,
-					)
-					.join("\n\n");
-
-				return {
-					content: [{ text: formatted, type: "text" }],
-				};
 			},
 		);
 
 		// Tool 5: Review a card (supports both single and batch review)
 		this.server.tool(
 			"review_card",
-			"Submit review(s) for card(s) with FSRS rating. Supports single or batch mode. FSRS ratings: 1=Again (forgot), 2=Hard (difficult), 3=Good (correct), 4=Easy (effortless). Examples: Single - {card_id: 5, rating: 3}. Batch - {reviews: [{card_id: 5, rating: 3}, {card_id: 8, rating: 4}]}",
+			"Submit review(s) for card(s) with FSRS rating, optionally with the question asked, the user's answer and your feedback so later sessions can see them (get_card_transcripts). Supports single or batch mode. FSRS ratings: 1=Again (forgot), 2=Hard (difficult), 3=Good (correct), 4=Easy (effortless). Examples: Single - {card_id: 5, rating: 3, question: 'Reverse a linked list in place', user_answer: '...', feedback: 'Correct, but missed the empty list case'}. Batch - {reviews: [{card_id: 5, rating: 3}, {card_id: 8, rating: 4}]}",
 			{
 				card_id: z.number().optional().describe("(Single mode) The ID of the card to review"),
 				rating: z
@@ -329,27 +551,27 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					.max(4)
 					.optional()
 					.describe("(Single mode) FSRS rating (1-4)"),
+				question: z.string().optional().describe("(Single mode) The problem or question you asked"),
+				user_answer: z.string().optional().describe("(Single mode) What the user answered"),
+				feedback: z.string().optional().describe("(Single mode) Your feedback on the answer"),
 				reviews: z
 					.array(
 						z.object({
 							card_id: z.number().describe("The ID of the card to review"),
 							rating: z.number().min(1).max(4).describe("FSRS rating (1-4)"),
+							question: z.string().optional().describe("The problem or question you asked"),
+							user_answer: z.string().optional().describe("What the user answered"),
+							feedback: z.string().optional().describe("Your feedback on the answer"),
 						})
 					)
 					.optional()
 					.describe("(Batch mode) Array of card reviews to submit together"),
 			},
-			async ({ card_id, rating, reviews }) => {
+			async ({ card_id, rating, question, user_answer, feedback, reviews }) => {
 				const db = getUserDb();
 
-				// Helper to format date string
-				const formatDateStr = (nextReview: string): string => {
-					const today = new Date().toISOString().split("T")[0];
-					const nextDate = new Date(nextReview);
-					const daysDiff = Math.round(
-						(nextDate.getTime() - new Date(today).getTime()) / (1000 * 60 * 60 * 24),
-					);
-
+				// Helper to format date string (days are study days in the user's timezone)
+				const formatDateStr = (nextReview: string, daysDiff: number): string => {
 					if (daysDiff === 0) return "today";
 					if (daysDiff === 1) return "tomorrow";
 					return `${nextReview} (in ${daysDiff} days)`;
@@ -364,8 +586,12 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 						
 						if (result.successful.length > 0) {
 							text += `Successfully reviewed ${result.successful.length} card(s):\n`;
-							for (const { card_id, next_review } of result.successful) {
-								text += `  - Card ${card_id}: Next review ${formatDateStr(next_review)}\n`;
+							for (const { card_id, next_review, days_until, leech, buried_siblings } of result.successful) {
+								const buriedText = buried_siblings > 0 ? ` (${buried_siblings} sibling(s) buried)` : "";
+								text += `  - Card ${card_id}: Next review ${formatDateStr(next_review, days_until)}${leech ? " (LEECH)" : ""}${buriedText}\n`;
+							}
+							if (result.successful.some((r) => r.leech)) {
+								text += `\n${LEECH_NOTE}\n`;
 							}
 						}
 						
@@ -395,13 +621,18 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 				// Single mode (backward compatible)
 				if (card_id !== undefined && rating !== undefined) {
 					try {
-						const result = await db.submitReview(card_id, rating);
-						const dateStr = formatDateStr(result.next_review);
+						const result = await db.submitReview(card_id, rating, { question, user_answer, feedback });
+						const dateStr = formatDateStr(result.next_review, result.days_until);
+						const leechText = result.leech
+							? `\n\nThis card is now a LEECH (forgotten ${result.lapses} times). ${LEECH_NOTE}`
+							: "";
+						const buriedText =
+							result.buried_siblings > 0 ? `\nBuried ${result.buried_siblings} sibling card(s) until tomorrow.` : "";
 
 						return {
 							content: [
 								{
-									text: `Card ${card_id} reviewed. Next review: ${dateStr}`,
+									text: `Card ${card_id} reviewed. Next review: ${dateStr}${buriedText}${leechText}`,
 									type: "text",
 								},
 							],
@@ -433,7 +664,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// Tool 6: Edit a card (supports single or batch mode)
 		this.server.tool(
 			"edit_card",
-			"Edit card(s) instructions and/or tags. Supports single or batch mode. Examples: Single - {card_id: 5, instructions: 'new text', tags: 'python'}. Batch - {edits: [{card_id: 5, instructions: 'new text'}, {card_id: 8, tags: 'javascript'}]}",
+			"Edit card(s) instructions, tags, reference answer and/or rubric. The previous content is kept as a version (see get_card_versions, revert_card). Supports single or batch mode. Examples: Single - {card_id: 5, instructions: 'new text', tags: 'python'}. Batch - {edits: [{card_id: 5, instructions: 'new text'}, {card_id: 8, tags: 'javascript'}]}",
 			{
 				card_id: z.number().optional().describe("(Single mode) The ID of the card to edit. Example: card_id=5"),
 				instructions: z
@@ -450,18 +681,28 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 						"(Single mode) New comma-separated tags (replaces existing). " +
 						"Example: 'python,intermediate,recursion'"
 					),
+				reference_answer: z
+					.string()
+					.optional()
+					.describe("(Single mode) New reference answer (replaces existing). Empty string removes it"),
+				rubric: z
+					.string()
+					.optional()
+					.describe("(Single mode) New grading rubric (replaces existing). Empty string removes it"),
 				edits: z
 					.array(
 						z.object({
 							card_id: z.number().describe("Card ID to edit"),
 							instructions: z.string().optional().describe("New instructions"),
 							tags: z.string().optional().describe("New comma-separated tags"),
+							reference_answer: z.string().optional().describe("New reference answer (empty removes it)"),
+							rubric: z.string().optional().describe("New grading rubric (empty removes it)"),
 						})
 					)
 					.optional()
 					.describe("(Batch mode) Array of card edits to apply at once"),
 			},
-			async ({ card_id, instructions, tags, edits }) => {
+			async ({ card_id, instructions, tags, reference_answer, rubric, edits }) => {
 				const db = getUserDb();
 
 				// Batch mode
@@ -470,6 +711,8 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 						card_id: e.card_id,
 						instructions: e.instructions,
 						tags: e.tags ? e.tags.split(",").map((t) => t.trim()) : undefined,
+						reference_answer: e.reference_answer,
+						rubric: e.rubric,
 					}));
 
 					const result = await db.editCardsInBatch(batchInput);
@@ -496,11 +739,11 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 
 				// Single mode (backward compatible)
 				if (card_id !== undefined) {
-					if (!instructions && !tags) {
+					if (!instructions && !tags && reference_answer === undefined && rubric === undefined) {
 						return {
 							content: [
 								{
-									text: "Error: Must provide either instructions or tags",
+									text: "Error: Must provide instructions, tags, reference_answer or rubric",
 									type: "text",
 								},
 							],
@@ -508,7 +751,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					}
 
 					const tagArray = tags ? tags.split(",").map((t) => t.trim()) : undefined;
-					const success = await db.editCard(card_id, instructions, tagArray);
+					const success = await db.editCard(card_id, instructions, tagArray, { reference_answer, rubric });
 
 					if (success) {
 						return {
@@ -525,7 +768,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 				return {
 					content: [
 						{
-							text: "Error: Must provide either (card_id + instructions/tags) for single edit or (edits array) for batch edit",
+							text: "Error: Must provide either (card_id + fields to change) for single edit or (edits array) for batch edit",
 							type: "text",
 						},
 					],
@@ -536,7 +779,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// Tool 7: Delete a card (supports single or batch mode)
 		this.server.tool(
 			"delete_card",
-			"Delete card(s) permanently. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 8, 12]}",
+			"Move card(s) to the trash. They can be brought back with restore_card until the trash_retention_days setting passes (default 30), then they're deleted for good. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 8, 12]}",
 			{
 				card_id: z.number().optional().describe("(Single mode) The ID of the card to delete"),
 				card_ids: z
@@ -555,7 +798,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 
 					if (result.successful.length > 0) {
 						const ids = result.successful.map(s => s.card_id).join(", ");
-						text += `Successfully deleted ${result.successful.length} card(s): ${ids}`;
+						text += `Moved ${result.successful.length} card(s) to the trash: ${ids} (undo with restore_card)`;
 					}
 
 					if (result.failed.length > 0) {
@@ -577,7 +820,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 
 					if (success) {
 						return {
-							content: [{ text: `Deleted card ${card_id}`, type: "text" }],
+							content: [{ text: `Moved card ${card_id} to the trash (undo with restore_card)`, type: "text" }],
 						};
 					} else {
 						return {
@@ -609,7 +852,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 					.describe(
 						"Filter stats by comma-separated tags. " +
 						"Example: 'python,algorithms' shows stats only for cards with those tags. " +
-						"Omit to see all cards and breakdown by tag."
+						"Omit to see all cards and breakdown by tag (decks include their subdecks)."
 					),
 			},
 			async ({ tags }) => {
@@ -643,17 +886,31 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 				text += `\nRECENT ACTIVITY:\n`;
 				text += `  Cards reviewed (last 24h): ${stats.cards_reviewed_last_24h}\n`;
 				text += `  Cards due now: ${stats.due_today}\n`;
+				if (stats.held_back > 0) {
+					text += `  Held back by daily limits: ${stats.held_back}\n`;
+				}
+				if (stats.blocked > 0) {
+					text += `  New cards waiting on prerequisites: ${stats.blocked}\n`;
+				}
+				text += `  New cards remaining today: ${stats.new_remaining_today}\n`;
+				text += `  Reviews remaining today: ${stats.reviews_remaining_today}\n`;
 
 				// Overall stats
 				text += `\nOVERALL:\n`;
 				text += `  Total cards: ${stats.total}\n`;
+				if (stats.suspended + stats.buried > 0) {
+					text += `  Hidden: ${stats.suspended} suspended, ${stats.buried} buried (in the total, never due)\n`;
+				}
 				text += `  Total reviews: ${stats.total_reviews}\n`;
 
 				// Tag breakdown
 				if (stats.by_tag && Object.keys(stats.by_tag).length > 0) {
 					text += "\nBY TAG:";
 					for (const [tag, tagStats] of Object.entries(stats.by_tag)) {
-						text += `\n  ${tag}: ${tagStats.total} cards (${tagStats.due} due)`;
+						// Indent subdecks under their parent: "cs::algorithms" shows as "  algorithms"
+						const levels = tag.split(DECK_SEPARATOR);
+						const indent = "  ".repeat(levels.length);
+						text += `\n${indent}${levels[levels.length - 1]}: ${tagStats.total} cards (${tagStats.due} due)`;
 					}
 				}
 
@@ -666,7 +923,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 		// Tool 9: Undo last review (supports single or batch mode)
 		this.server.tool(
 			"undo_review",
-			"Undo the last review rating for card(s), restoring previous state and review schedule. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 8, 12]}",
+			"Undo the last review rating for card(s), restoring previous state and review schedule, and taking back the leech tag, leech suspension and sibling burying that rating caused. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 8, 12]}",
 			{
 				card_id: z
 					.number()
@@ -743,7 +1000,1430 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
 				};
 			},
 		);
-		
+
+		// Tool 10: Import an Anki deck
+		this.server.tool(
+			"import_anki",
+			"Import an Anki deck (.apkg) as cards. Each Anki card becomes one card (reversed cards swap front and back, cloze cards hide their own deletion); Anki tags and deck names become tags. With include_scheduling, each card's Anki review history is replayed through FSRS so existing progress is kept. Cards whose front and back both match an existing card are skipped. Example: {data: '<base64 .apkg>', include_scheduling: true}",
+			{
+				data: z
+					.string()
+					.describe(
+						"Base64-encoded contents of the .apkg file. " +
+						"Export from Anki with 'Support older Anki versions' enabled"
+					),
+				include_scheduling: z
+					.boolean()
+					.optional()
+					.describe("Carry over Anki's review history and scheduling (default: false - cards start as new)"),
+			},
+			async ({ data, include_scheduling }) => {
+				const db = getUserDb();
+
+				try {
+					const result = await db.importAnki(base64ToBytes(data), { include_scheduling });
+					return {
+						content: [{ text: formatImportResult(result, "Anki card"), type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Import error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 11: Export cards as an Anki deck
+		this.server.tool(
+			"export_anki",
+			"Export cards as an Anki deck (.apkg) with one note per card, deck tags such as 'cs::algorithms' turned into Anki decks, tags preserved and FSRS scheduling state and review history carried over. Example: Export everything, or only cards tagged 'python,algorithms'",
+			{
+				tags: z
+					.string()
+					.optional()
+					.describe("Only export cards with these comma-separated tags (e.g., 'python,algorithms')"),
+			},
+			async ({ tags }) => {
+				const db = getUserDb();
+				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
+				const data = await db.exportAnki(tagArray);
+
+				return {
+					content: [
+						{
+							text: `Exported deck (${Math.ceil(data.length / 1024)} KB). Import it in Anki with File > Import.`,
+							type: "text",
+						},
+						{
+							type: "resource",
+							resource: {
+								uri: "spaced://export/spaced-repetition.apkg",
+								mimeType: "application/octet-stream",
+								blob: bytesToBase64(data),
+							},
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 12: Import cards from CSV/TSV
+		this.server.tool(
+			"import_csv",
+			"Import cards from CSV or TSV text with a header row. Reads instructions, optional tags (comma or semicolon separated), reference answer, rubric and due date columns. Rows whose instructions and reference answer already exist as a card are skipped. Example: {data: 'instructions,tags\nPractice Python decorators,python'}. Column names can be remapped, e.g. {data: '...', instructions_column: 'Prompt'}",
+			{
+				data: z.string().describe("CSV/TSV text including the header row"),
+				delimiter: z
+					.enum(["comma", "tab"])
+					.optional()
+					.describe("Field delimiter (default: detected from the header row)"),
+				instructions_column: z
+					.string()
+					.optional()
+					.describe("Header of the instructions column (default: 'instructions', 'front' or 'question')"),
+				tags_column: z.string().optional().describe("Header of the tags column (default: 'tags')"),
+				due_column: z.string().optional().describe("Header of the due date column (default: 'due')"),
+				reference_answer_column: z
+					.string()
+					.optional()
+					.describe("Header of the reference answer column (default: 'reference_answer', 'answer' or 'back')"),
+				rubric_column: z.string().optional().describe("Header of the rubric column (default: 'rubric')"),
+			},
+			async ({ data, delimiter, instructions_column, tags_column, due_column, reference_answer_column, rubric_column }) => {
+				const db = getUserDb();
+
+				try {
+					const result = await db.importCsv(data, {
+						delimiter: delimiter === "tab" ? "\t" : delimiter === "comma" ? "," : undefined,
+						columns: {
+							instructions: instructions_column,
+							tags: tags_column,
+							due: due_column,
+							reference_answer: reference_answer_column,
+							rubric: rubric_column,
+						},
+					});
+					return {
+						content: [{ text: formatImportResult(result, "Row"), type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Import error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 13: Export cards as CSV/TSV
+		this.server.tool(
+			"export_csv",
+			"Export cards as CSV or TSV with tags, due date, FSRS state, stability, difficulty, reps and lapses. Example: Export cards tagged 'python' as TSV - {tags: 'python', delimiter: 'tab'}",
+			{
+				tags: z
+					.string()
+					.optional()
+					.describe("Only export cards with these comma-separated tags (e.g., 'python,algorithms')"),
+				delimiter: z.enum(["comma", "tab"]).optional().describe("Field delimiter (default: comma)"),
+			},
+			async ({ tags, delimiter }) => {
+				const db = getUserDb();
+				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
+				const csv = await db.exportCsv(tagArray, delimiter === "tab" ? "\t" : ",");
+
+				return {
+					content: [{ text: csv, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 14: Back up the whole account
+		this.server.tool(
+			"backup_account",
+			"Create a full JSON backup of all your cards, tags, FSRS scheduling state and review history. Keep it somewhere safe before bulk edits or deletes; it can be restored through the REST API (POST /api/restore).",
+			{},
+			async () => {
+				const db = getUserDb();
+				const backup = await db.createBackup();
+				const reviewCount = backup.cards.reduce((sum, card) => sum + card.history.length, 0);
+
+				return {
+					content: [
+						{
+							text: `Backed up ${backup.cards.length} card(s) with ${reviewCount} review(s) (backup format v${backup.version}).`,
+							type: "text",
+						},
+						{
+							type: "resource",
+							resource: {
+								uri: `spaced://backup/${backup.exported_at}.json`,
+								mimeType: "application/json",
+								text: JSON.stringify(backup),
+							},
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 15: Fit personalized FSRS parameters
+		this.server.tool(
+			"optimize_parameters",
+			"Fit personalized FSRS scheduling parameters to your review history and use them for all future scheduling. Needs at least 100 reviews spread over several days; re-run occasionally as your history grows.",
+			{},
+			async () => {
+				const db = getUserDb();
+
+				try {
+					const result = await db.optimizeParameters();
+					const improvement = ((result.loss_before - result.loss_after) / result.loss_before) * 100;
+
+					let text = `Optimized FSRS parameters from ${result.review_count} reviews across ${result.card_count} card(s).\n`;
+					if (result.sample_size < result.log_size) {
+						text += `Fitted on the most recently reviewed cards: ${result.sample_size} of the ${result.log_size} reviews in your history.\n`;
+					}
+					text += `Log loss: ${result.loss_before.toFixed(4)} -> ${result.loss_after.toFixed(4)} (${improvement.toFixed(1)}% better)\n`;
+					text += `Parameters: ${result.parameters.join(", ")}`;
+
+					return {
+						content: [{ text, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Optimization error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 16: Get scheduler settings
+		this.server.tool(
+			"get_settings",
+			"Get your settings (desired retention, maximum interval, learning/relearning steps, fuzz, leech handling, timezone and day rollover) and any per-tag overrides",
+			{},
+			async () => {
+				const db = getUserDb();
+				const view = await db.getSettings();
+
+				return {
+					content: [{ text: formatSettings(view), type: "text" }],
+				};
+			},
+		);
+
+		// Tool 17: Update scheduler settings
+		this.server.tool(
+			"update_settings",
+			"Update scheduler settings for all cards, or override them for cards with a specific tag. Only the fields you pass change. Examples: {desired_retention: 0.85}. {timezone: 'America/Los_Angeles', day_rollover_hour: 4}. Per tag - {tag: 'exam-critical', desired_retention: 0.95}. Remove a tag override - {tag: 'exam-critical', reset: true}",
+			{
+				tag: z
+					.string()
+					.optional()
+					.describe("Apply the settings only to cards with this tag. Omit to change your own defaults"),
+				desired_retention: z
+					.number()
+					.optional()
+					.describe("Target probability of remembering a card when it comes due, 0.7-0.99 (default 0.9). Higher means more reviews"),
+				maximum_interval: z.number().int().optional().describe("Longest interval between reviews in days (default 36500)"),
+				learning_steps: z
+					.string()
+					.optional()
+					.describe("Comma-separated short-term steps for new cards, e.g. '1m,10m' (default). Empty string for none"),
+				relearning_steps: z
+					.string()
+					.optional()
+					.describe("Comma-separated short-term steps after forgetting a card, e.g. '10m' (default). Empty string for none"),
+				enable_fuzz: z
+					.boolean()
+					.optional()
+					.describe("Randomize intervals slightly so cards added together don't all come due on the same day"),
+				leech_threshold: z
+					.number()
+					.int()
+					.optional()
+					.describe("Lapses (times forgotten) after which a card is flagged as a leech (default 8). Not per tag"),
+				leech_action: z
+					.enum(["tag", "suspend"])
+					.optional()
+					.describe("What to do with new leeches: 'tag' them with 'leech' (default) or also 'suspend' them. Not per tag"),
+				timezone: z
+					.string()
+					.optional()
+					.describe("Your IANA timezone, e.g. 'America/Los_Angeles' (default 'UTC'). Decides 'today', due days and streaks. Not per tag"),
+				day_rollover_hour: z
+					.number()
+					.int()
+					.optional()
+					.describe("Local hour (0-23) when a new study day starts (default 0; Anki uses 4) so late-night reviews count for the day before. Not per tag"),
+				new_cards_per_day: z
+					.number()
+					.int()
+					.optional()
+					.describe("Most new cards introduced per day (default 20). Extra new cards wait for later days. Not per tag"),
+				reviews_per_day: z
+					.number()
+					.int()
+					.optional()
+					.describe("Most reviews per day, new cards included (default 200). Cards in learning steps are always shown. Not per tag"),
+				new_card_position: z
+					.enum(NEW_CARD_POSITIONS)
+					.optional()
+					.describe("Where new cards go in the due queue: 'mix' them in among reviews, show them 'first', or 'last' (default). Not per tag"),
+				bury_siblings: z
+					.boolean()
+					.optional()
+					.describe("After reviewing a card, bury its sibling cards until tomorrow so one concept isn't drilled twice a day (default true). Not per tag"),
+				prerequisite_stability: z
+					.number()
+					.optional()
+					.describe("Stability in days a prerequisite card must reach before new cards that depend on it are introduced (default 7). Not per tag"),
+				trash_retention_days: z
+					.number()
+					.int()
+					.optional()
+					.describe("Days deleted cards stay in the trash before they're deleted for good (default 30). Not per tag"),
+				reset: z
+					.boolean()
+					.optional()
+					.describe("Reset to defaults (or remove the tag's overrides when tag is given) instead of updating"),
+			},
+			async ({ tag, reset, learning_steps, relearning_steps, ...rest }) => {
+				const db = getUserDb();
+				const tagName = tag?.trim() || undefined;
+
+				try {
+					if (reset) {
+						const view = await db.resetSettings(tagName);
+						const what = tagName ? `Removed overrides for tag '${tagName}'` : "Reset settings to defaults";
+						return {
+							content: [{ text: `${what}.\n\n${formatSettings(view)}`, type: "text" }],
+						};
+					}
+
+					const parseSteps = (steps: string | undefined) =>
+						steps === undefined ? undefined : (steps.split(",").map((t) => t.trim()).filter((t) => t) as Settings["learning_steps"]);
+
+					const update: Partial<Settings> = {
+						...rest,
+						learning_steps: parseSteps(learning_steps),
+						relearning_steps: parseSteps(relearning_steps),
+					};
+					// Drop fields that weren't passed so they keep their current value
+					for (const key of Object.keys(update) as Array<keyof Settings>) {
+						if (update[key] === undefined) delete update[key];
+					}
+
+					if (Object.keys(update).length === 0) {
+						return {
+							content: [{ text: "Error: Must provide at least one setting to change (or reset: true)", type: "text" }],
+						};
+					}
+
+					const view = await db.updateSettings(update, tagName);
+					const what = tagName ? `Updated settings for tag '${tagName}'` : "Updated settings";
+					return {
+						content: [{ text: `${what}.\n\n${formatSettings(view)}`, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 18: Create a deck
+		this.server.tool(
+			"create_deck",
+			"Create a deck. Decks are tags with '::' between levels, so a card tagged 'cs::algorithms::graphs' is in the graphs deck under algorithms under cs. Creating a deck up front is optional - tagging a card is enough. Example: {name: 'cs::algorithms'}",
+			{
+				name: z.string().describe("Full deck path, e.g. 'cs::algorithms'"),
+			},
+			async ({ name }) => {
+				const db = getUserDb();
+
+				try {
+					const deck = await db.createDeck(name);
+					return {
+						content: [{ text: `Created deck '${deck}'. Tag cards with '${deck}' to add them.`, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 19: Rename a deck
+		this.server.tool(
+			"rename_deck",
+			"Rename a deck, keeping it under the same parent. Subdecks, card tags and per-tag settings follow. Example: {name: 'cs::algo', new_name: 'algorithms'} renames it to 'cs::algorithms'",
+			{
+				name: z.string().describe("Full path of the deck to rename, e.g. 'cs::algo'"),
+				new_name: z.string().describe("New name for the deck's own level (no '::'), e.g. 'algorithms'"),
+			},
+			async ({ name, new_name }) => {
+				const db = getUserDb();
+
+				try {
+					const result = await db.renameDeck(name, new_name);
+					return {
+						content: [
+							{
+								text: `Renamed deck '${name.trim()}' to '${result.name}' (${result.cards} card(s))`,
+								type: "text",
+							},
+						],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 20: Move a deck under another parent
+		this.server.tool(
+			"move_deck",
+			"Move a deck and its subdecks under another deck, or to the top level. Card tags and per-tag settings follow. Examples: {name: 'cs::graphs', parent: 'cs::algorithms'} gives 'cs::algorithms::graphs'. {name: 'cs::graphs', parent: ''} gives 'graphs'",
+			{
+				name: z.string().describe("Full path of the deck to move, e.g. 'cs::graphs'"),
+				parent: z.string().describe("Full path of the new parent deck, or empty to move it to the top level"),
+			},
+			async ({ name, parent }) => {
+				const db = getUserDb();
+
+				try {
+					const result = await db.moveDeck(name, parent);
+					return {
+						content: [
+							{
+								text: `Moved deck '${name.trim()}' to '${result.name}' (${result.cards} card(s))`,
+								type: "text",
+							},
+						],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 21: Suspend cards (supports single or batch mode)
+		this.server.tool(
+			"suspend_card",
+			"Suspend cards so they stop coming up for review until unsuspended. Their schedule is kept. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 6, 7]}",
+			{
+				card_id: z.number().optional().describe("(Single mode) ID of the card to suspend"),
+				card_ids: z
+					.array(z.number())
+					.optional()
+					.describe("(Batch mode) Array of card IDs to suspend at once"),
+			},
+			async ({ card_id, card_ids }) => {
+				const db = getUserDb();
+
+				// Batch mode
+				if (card_ids && card_ids.length > 0) {
+					const result = await db.suspendCardsInBatch(card_ids);
+
+					let text = "";
+
+					if (result.successful.length > 0) {
+						const ids = result.successful.map(s => s.card_id).join(", ");
+						text += `Successfully suspended ${result.successful.length} card(s): ${ids}`;
+					}
+
+					if (result.failed.length > 0) {
+						if (text) text += "\n";
+						text += `Failed to suspend ${result.failed.length} card(s):\n`;
+						for (const { card_id, error } of result.failed) {
+							text += `  - Card ${card_id}: ${error}\n`;
+						}
+					}
+
+					return {
+						content: [{ text: text.trim(), type: "text" }],
+					};
+				}
+
+				// Single mode
+				if (card_id !== undefined) {
+					const success = await db.suspendCard(card_id);
+
+					if (success) {
+						return {
+							content: [{ text: `Suspended card ${card_id}. It won't come up for review until you unsuspend it.`, type: "text" }],
+						};
+					} else {
+						return {
+							content: [{ text: `Card ${card_id} not found`, type: "text" }],
+						};
+					}
+				}
+
+				// Invalid input
+				return {
+					content: [
+						{
+							text: "Error: Must provide either (card_id) for single mode or (card_ids array) for batch mode",
+							type: "text",
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 22: Bury cards until tomorrow (supports single or batch mode)
+		this.server.tool(
+			"bury_card",
+			"Bury cards until the next day, e.g. because the topic was already covered today in another conversation. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 6, 7]}",
+			{
+				card_id: z.number().optional().describe("(Single mode) ID of the card to bury"),
+				card_ids: z
+					.array(z.number())
+					.optional()
+					.describe("(Batch mode) Array of card IDs to bury at once"),
+			},
+			async ({ card_id, card_ids }) => {
+				const db = getUserDb();
+
+				// Batch mode
+				if (card_ids && card_ids.length > 0) {
+					const result = await db.buryCardsInBatch(card_ids);
+
+					let text = "";
+
+					if (result.successful.length > 0) {
+						const ids = result.successful.map(s => s.card_id).join(", ");
+						text += `Successfully buried ${result.successful.length} card(s): ${ids}`;
+					}
+
+					if (result.failed.length > 0) {
+						if (text) text += "\n";
+						text += `Failed to bury ${result.failed.length} card(s):\n`;
+						for (const { card_id, error } of result.failed) {
+							text += `  - Card ${card_id}: ${error}\n`;
+						}
+					}
+
+					return {
+						content: [{ text: text.trim(), type: "text" }],
+					};
+				}
+
+				// Single mode
+				if (card_id !== undefined) {
+					const success = await db.buryCard(card_id);
+
+					if (success) {
+						return {
+							content: [{ text: `Buried card ${card_id} until tomorrow.`, type: "text" }],
+						};
+					} else {
+						return {
+							content: [{ text: `Card ${card_id} not found`, type: "text" }],
+						};
+					}
+				}
+
+				// Invalid input
+				return {
+					content: [
+						{
+							text: "Error: Must provide either (card_id) for single mode or (card_ids array) for batch mode",
+							type: "text",
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 23: Unsuspend/unbury cards (supports single or batch mode)
+		this.server.tool(
+			"unsuspend_card",
+			"Bring back suspended or buried cards so they come up for review again when due. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 6, 7]}",
+			{
+				card_id: z.number().optional().describe("(Single mode) ID of the card to unsuspend"),
+				card_ids: z
+					.array(z.number())
+					.optional()
+					.describe("(Batch mode) Array of card IDs to unsuspend at once"),
+			},
+			async ({ card_id, card_ids }) => {
+				const db = getUserDb();
+
+				// Batch mode
+				if (card_ids && card_ids.length > 0) {
+					const result = await db.unsuspendCardsInBatch(card_ids);
+
+					let text = "";
+
+					if (result.successful.length > 0) {
+						const ids = result.successful.map(s => s.card_id).join(", ");
+						text += `Successfully unsuspended ${result.successful.length} card(s): ${ids}`;
+					}
+
+					if (result.failed.length > 0) {
+						if (text) text += "\n";
+						text += `Failed to unsuspend ${result.failed.length} card(s):\n`;
+						for (const { card_id, error } of result.failed) {
+							text += `  - Card ${card_id}: ${error}\n`;
+						}
+					}
+
+					return {
+						content: [{ text: text.trim(), type: "text" }],
+					};
+				}
+
+				// Single mode
+				if (card_id !== undefined) {
+					const success = await db.unsuspendCard(card_id);
+
+					if (success) {
+						return {
+							content: [{ text: `Unsuspended card ${card_id}.`, type: "text" }],
+						};
+					} else {
+						return {
+							content: [{ text: `Card ${card_id} not found`, type: "text" }],
+						};
+					}
+				}
+
+				// Invalid input
+				return {
+					content: [
+						{
+							text: "Error: Must provide either (card_id) for single mode or (card_ids array) for batch mode",
+							type: "text",
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 24: List leeches
+		this.server.tool(
+			"get_leeches",
+			"List leeches - cards that keep getting forgotten (tagged 'leech' or over the lapse threshold) - with when each was forgotten. Use this to suggest rewriting or splitting problem cards. Example: {tags: 'python'}",
+			{
+				tags: z
+					.string()
+					.optional()
+					.describe("Filter by comma-separated tags (e.g., 'python,algorithms'). Parent decks include their subdecks"),
+			},
+			async ({ tags }) => {
+				const db = getUserDb();
+				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
+				const leeches = await db.getLeeches(tagArray);
+
+				if (leeches.length === 0) {
+					return {
+						content: [{ text: "No leeches found", type: "text" }],
+					};
+				}
+
+				const formatted = leeches
+					.map((c) => {
+						const lapses = c.lapse_history.map((date) => date.split("T")[0]).join(", ");
+						return (
+							`Card ${c.id}: ${c.instructions}\nTags: ${c.tags.join(", ") || "none"}\n` +
+							`Lapses: ${c.lapses}${lapses ? ` (${lapses})` : ""}\n` +
+							`Status: ${c.suspended ? "suspended" : `due ${c.due}`}`
+						);
+					})
+					.join("\n\n");
+
+				return {
+					content: [{ text: `Found ${leeches.length} leech(es):\n\n${formatted}\n\n${LEECH_NOTE}`, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 25: Get question/answer transcripts for a card
+		this.server.tool(
+			"get_card_transcripts",
+			"Get the last questions asked for a card, the user's answers and the feedback given (recorded with review_card). Use this before generating a problem to avoid repeating one and to see how the user's mistakes have changed. Example: {card_id: 5, limit: 3}",
+			{
+				card_id: z.number().describe("The ID of the card"),
+				limit: z.number().int().min(1).max(50).optional().describe("Number of most recent exchanges to return (default 5)"),
+			},
+			async ({ card_id, limit }) => {
+				const db = getUserDb();
+
+				try {
+					const transcripts = await db.getCardTranscripts(card_id, limit);
+
+					if (transcripts.length === 0) {
+						return {
+							content: [{ text: `No transcripts recorded for card ${card_id}`, type: "text" }],
+						};
+					}
+
+					const ratings = ["", "Again", "Hard", "Good", "Easy"];
+					const formatted = transcripts
+						.map((t) => {
+							let text = `${t.reviewed_at.split("T")[0]}${t.rating ? ` - rated ${ratings[t.rating]}` : ""}`;
+							if (t.question) text += `\nQuestion: ${t.question}`;
+							if (t.user_answer) text += `\nAnswer: ${t.user_answer}`;
+							if (t.feedback) text += `\nFeedback: ${t.feedback}`;
+							return text;
+						})
+						.join("\n\n");
+
+					return {
+						content: [
+							{ text: `Last ${transcripts.length} exchange(s) for card ${card_id} (oldest first):\n\n${formatted}`, type: "text" },
+						],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 26: Get a card's review and edit history
+		this.server.tool(
+			"get_card_history",
+			"Get a card's full timeline - creation, every review (rating, FSRS state, stability, difficulty and lapse changes, interval set) and every edit - to understand why it's scheduled where it is. Example: {card_id: 5}",
+			{
+				card_id: z.number().describe("The ID of the card"),
+			},
+			async ({ card_id }) => {
+				const db = getUserDb();
+				const history = await db.getCardHistory(card_id);
+
+				if (!history) {
+					return {
+						content: [{ text: `Card ${card_id} not found`, type: "text" }],
+					};
+				}
+
+				const ratings = ["", "Again", "Hard", "Good", "Easy"];
+				const round = (value: number) => Number(value.toFixed(2));
+				const change = <T>(label: string, { before, after }: { before: T; after: T }) =>
+					before === after ? `${label} ${before}` : `${label} ${before} -> ${after}`;
+
+				const lines = history.events.map((event) => {
+					const date = event.at.replace("T", " ").slice(0, 16);
+					switch (event.type) {
+						case "created":
+							return `${date}  Created`;
+						case "review":
+							return (
+								`${date}  Reviewed${event.rating ? ` (${ratings[event.rating]})` : ""}: ` +
+								[
+									change("state", event.state),
+									change("stability", { before: round(event.stability.before), after: round(event.stability.after) }),
+									change("difficulty", { before: round(event.difficulty.before), after: round(event.difficulty.after) }),
+									change("lapses", event.lapses),
+									`next due in ${event.interval_days} day(s)`,
+								].join(", ")
+							);
+						case "edit":
+							return `${date}  Edited${event.source ? ` via ${event.source.toUpperCase()}` : ""}: ${formatChanges(event.changes)}`;
+					}
+				});
+
+				const { card } = history;
+				const text =
+					`Card ${card.id}: ${card.instructions}\nTags: ${card.tags.join(", ") || "none"}\nDue: ${card.due}\n\n` +
+					`TIMELINE (UTC):\n${lines.join("\n")}`;
+
+				return {
+					content: [{ text, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 27: Forecast upcoming workload
+		this.server.tool(
+			"get_forecast",
+			"Forecast how many cards come due on each of the next N days, broken down by FSRS state (new/learning/review/relearning) and tag. Days are capped at the daily new card and review limits, with the overflow moved to later days; suspended cards and new cards waiting on prerequisites are left out. Optionally with the expected number of reviews that will be forgotten. Use this to plan study time before an exam or decide whether to keep adding cards. Example: {days: 14, tags: 'exam', include_lapses: true}",
+			{
+				days: z.number().int().min(1).max(365).optional().describe("Number of days to forecast, starting today (default 7)"),
+				tags: z
+					.string()
+					.optional()
+					.describe("Filter by comma-separated tags (e.g., 'python,algorithms'). Parent decks include their subdecks"),
+				include_lapses: z
+					.boolean()
+					.optional()
+					.describe("Also project how many reviews each day will end in Again - each adds extra relearning reviews"),
+			},
+			async ({ days, tags, include_lapses }) => {
+				const db = getUserDb();
+				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
+				const forecast = await db.getForecast(days, tagArray, include_lapses);
+
+				let text = `=== Forecast (next ${forecast.days.length} day(s)) ===\n`;
+				text += `Total due: ${forecast.total}${forecast.overdue > 0 ? ` (${forecast.overdue} overdue, counted today)` : ""}\n`;
+				if (forecast.held_back > 0) {
+					text += `${forecast.held_back} more held back past the last day by the daily limits\n`;
+				}
+
+				forecast.days.forEach((day, i) => {
+					const label = i === 0 ? "today" : i === 1 ? "tomorrow" : day.date;
+					text += `\n${day.date}${i < 2 ? ` (${label})` : ""}: ${day.due} due`;
+					if (day.due > 0) {
+						const states = Object.entries(day.by_state)
+							.filter(([, count]) => count > 0)
+							.map(([state, count]) => `${count} ${state}`);
+						text += ` - ${states.join(", ")}`;
+					}
+					if (day.projected_lapses) {
+						text += `; ~${day.projected_lapses} expected to be forgotten`;
+					}
+					const byTag = Object.entries(day.by_tag).sort(([a], [b]) => a.localeCompare(b));
+					if (byTag.length > 0) {
+						text += `\n  ${byTag.map(([tag, count]) => `${tag}: ${count}`).join(", ")}`;
+					}
+				});
+
+				return {
+					content: [{ text, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 28: Measure true retention against FSRS predictions
+		this.server.tool(
+			"get_retention",
+			"Measure actual retention from the review log (share of reviews not rated Again) per tag, card state and interval, compared with the recall probability FSRS predicted at review time. Shows whether the desired retention is realistic and which topics may be graded too leniently (remembered much more often than predicted) or too harshly. Example: {tags: 'python', days: 90}",
+			{
+				tags: z
+					.string()
+					.optional()
+					.describe("Filter by comma-separated tags (e.g., 'python,algorithms'). Parent decks include their subdecks"),
+				days: z.number().int().min(1).optional().describe("Only count reviews from the last N days (default: all)"),
+			},
+			async ({ tags, days }) => {
+				const db = getUserDb();
+				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
+				const report = await db.getRetention(tagArray, days);
+
+				if (report.overall.reviews === 0) {
+					return {
+						content: [{ text: "No rated reviews yet - retention is measured from reviews submitted with a rating", type: "text" }],
+					};
+				}
+
+				const percent = (value: number) => `${Math.round(value * 100)}%`;
+				const formatGroup = (name: string, group: RetentionGroup) => {
+					let line = `  ${name}: ${percent(group.retention)} recalled (${group.reviews} review(s))`;
+					if (group.predicted !== null && group.difference !== null) {
+						const points = Math.round(group.difference * 100);
+						line += `, predicted ${percent(group.predicted)}, ${points >= 0 ? "+" : ""}${points} pts`;
+					}
+					return line;
+				};
+				const section = (title: string, groups: Record<string, RetentionGroup>) =>
+					Object.keys(groups).length > 0
+						? `\n\n${title}:\n${Object.entries(groups).map(([name, group]) => formatGroup(name, group)).join("\n")}`
+						: "";
+
+				let text = `=== Retention${days ? ` (last ${days} days)` : ""} ===\n`;
+				text += `Desired retention: ${percent(report.desired_retention)}\n`;
+				text += formatGroup("Overall", report.overall).trim();
+				text += section("BY TAG", report.by_tag);
+				text += section("BY STATE (before the review)", report.by_state);
+				text += section("BY INTERVAL (since the previous review)", report.by_interval);
+				text +=
+					"\n\n+pts = recalled more often than FSRS predicted. Large gaps on one tag suggest grading there is too lenient (+) or too harsh (-); " +
+					"a large gap overall means the parameters need optimizing (optimize_parameters) or the desired retention is unrealistic.";
+
+				return {
+					content: [{ text, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 29: Link cards as siblings
+		this.server.tool(
+			"link_cards",
+			"Link existing cards as siblings: cards practising one concept from different angles (e.g. 'implement Dijkstra' and 'analyze Dijkstra's complexity'). Reviewing one buries the others until tomorrow (bury_siblings setting). Cards join the first card's group. Example: {card_ids: [12, 15]}",
+			{
+				card_ids: z.array(z.number()).min(2).describe("IDs of the cards to link - the rest join the first card's group"),
+			},
+			async ({ card_ids }) => {
+				const db = getUserDb();
+
+				try {
+					const group = await db.linkCards(card_ids);
+					return {
+						content: [{ text: `Linked cards as siblings. Group now contains card(s): ${group.join(", ")}`, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [{ text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`, type: "text" }],
+					};
+				}
+			},
+		);
+
+		// Tool 30: Unlink cards from their siblings (supports single or batch mode)
+		this.server.tool(
+			"unlink_card",
+			"Take card(s) out of their sibling group so reviewing them no longer buries other cards. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 6]}",
+			{
+				card_id: z.number().optional().describe("(Single mode) ID of the card to unlink"),
+				card_ids: z
+					.array(z.number())
+					.optional()
+					.describe("(Batch mode) Array of card IDs to unlink at once"),
+			},
+			async ({ card_id, card_ids }) => {
+				const db = getUserDb();
+
+				// Batch mode
+				if (card_ids && card_ids.length > 0) {
+					const result = await db.unlinkCardsInBatch(card_ids);
+
+					let text = "";
+
+					if (result.successful.length > 0) {
+						const ids = result.successful.map(s => s.card_id).join(", ");
+						text += `Successfully unlinked ${result.successful.length} card(s): ${ids}`;
+					}
+
+					if (result.failed.length > 0) {
+						if (text) text += "\n";
+						text += `Failed to unlink ${result.failed.length} card(s):\n`;
+						for (const { card_id, error } of result.failed) {
+							text += `  - Card ${card_id}: ${error}\n`;
+						}
+					}
+
+					return {
+						content: [{ text: text.trim(), type: "text" }],
+					};
+				}
+
+				// Single mode
+				if (card_id !== undefined) {
+					const success = await db.unlinkCard(card_id);
+
+					if (success) {
+						return {
+							content: [{ text: `Unlinked card ${card_id} from its siblings.`, type: "text" }],
+						};
+					} else {
+						return {
+							content: [{ text: `Card ${card_id} not found`, type: "text" }],
+						};
+					}
+				}
+
+				// Invalid input
+				return {
+					content: [
+						{
+							text: "Error: Must provide either (card_id) for single unlink or (card_ids array) for batch unlink",
+							type: "text",
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 31: Add prerequisites to a card
+		this.server.tool(
+			"add_prerequisite",
+			"Declare that a card depends on other cards, e.g. 'dynamic programming' needs 'recursion basics' first. While a prerequisite isn't learned (stability below the prerequisite_stability setting), a new card that depends on it stays out of due cards. Links that would form a cycle are refused. Example: {card_id: 12, prerequisite_ids: [3, 7]}",
+			{
+				card_id: z.number().describe("ID of the card that depends on the prerequisites"),
+				prerequisite_ids: z.array(z.number()).min(1).describe("IDs of the cards to learn first"),
+			},
+			async ({ card_id, prerequisite_ids }) => {
+				const db = getUserDb();
+				const added: number[] = [];
+				const existing: number[] = [];
+				const failed: Array<{ id: number; error: string }> = [];
+
+				for (const prerequisiteId of prerequisite_ids) {
+					try {
+						if (await db.addPrerequisite(card_id, prerequisiteId)) {
+							added.push(prerequisiteId);
+						} else {
+							existing.push(prerequisiteId);
+						}
+					} catch (error) {
+						failed.push({ id: prerequisiteId, error: error instanceof Error ? error.message : "Unknown error" });
+					}
+				}
+
+				let text = "";
+				if (added.length > 0) {
+					text += `Card ${card_id} now needs card(s) ${added.join(", ")} learned first`;
+				}
+				if (existing.length > 0) {
+					if (text) text += "\n";
+					text += `Already a prerequisite: ${existing.join(", ")}`;
+				}
+				if (failed.length > 0) {
+					if (text) text += "\n";
+					text += `Failed to add ${failed.length} prerequisite(s):\n`;
+					for (const { id, error } of failed) {
+						text += `  - Card ${id}: ${error}\n`;
+					}
+				}
+
+				return {
+					content: [{ text: text.trim(), type: "text" }],
+				};
+			},
+		);
+
+		// Tool 32: Remove prerequisites from a card
+		this.server.tool(
+			"remove_prerequisite",
+			"Remove prerequisite links from a card so it no longer waits for those cards. Example: {card_id: 12, prerequisite_ids: [3]}",
+			{
+				card_id: z.number().describe("ID of the card that depends on the prerequisites"),
+				prerequisite_ids: z.array(z.number()).min(1).describe("IDs of the prerequisites to remove"),
+			},
+			async ({ card_id, prerequisite_ids }) => {
+				const db = getUserDb();
+				const removed: number[] = [];
+				const missing: number[] = [];
+
+				for (const prerequisiteId of prerequisite_ids) {
+					if (await db.removePrerequisite(card_id, prerequisiteId)) {
+						removed.push(prerequisiteId);
+					} else {
+						missing.push(prerequisiteId);
+					}
+				}
+
+				let text = "";
+				if (removed.length > 0) {
+					text += `Card ${card_id} no longer needs card(s) ${removed.join(", ")} first`;
+				}
+				if (missing.length > 0) {
+					if (text) text += "\n";
+					text += `Not a prerequisite of card ${card_id}: ${missing.join(", ")}`;
+				}
+
+				return {
+					content: [{ text, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 33: Show the learning path through the prerequisite graph
+		this.server.tool(
+			"get_learning_path",
+			"Show cards in learning order (prerequisites before the cards that need them), with which new cards are blocked and which prerequisites they're waiting for. Example: {card_id: 12} for one card and everything it depends on, or {tags: 'algorithms'}",
+			{
+				card_id: z.number().optional().describe("Only this card and everything it depends on"),
+				tags: z
+					.string()
+					.optional()
+					.describe("Only cards with these comma-separated tags (parent decks include subdecks) and everything they depend on"),
+			},
+			async ({ card_id, tags }) => {
+				const db = getUserDb();
+				const tagArray = tags ? tags.split(",").map((t) => t.trim()) : [];
+				const [path, { settings }] = await Promise.all([db.getLearningPath(card_id, tagArray), db.getSettings()]);
+
+				if (path.length === 0) {
+					const what = card_id !== undefined ? `Card ${card_id} has no prerequisite links` : "No cards have prerequisites yet";
+					return {
+						content: [{ text: `${what} - add some with add_prerequisite`, type: "text" }],
+					};
+				}
+
+				let text = `=== Learning path (prerequisites count as learned at ${settings.prerequisite_stability}+ days stability) ===\n`;
+				path.forEach((step, i) => {
+					const status = step.state === "new" && step.blocked_by.length > 0 ? "BLOCKED" : step.state;
+					text += `\n${i + 1}. Card ${step.id} [${status}${step.suspended ? ", suspended" : ""}]: ${step.instructions}`;
+					text += `\n   Stability: ${step.stability} days`;
+					if (step.prerequisites.length > 0) {
+						text += `\n   Needs: ${step.prerequisites.join(", ")}`;
+					}
+					if (step.state === "new" && step.blocked_by.length > 0) {
+						text += `\n   Waiting for: ${step.blocked_by.join(", ")}`;
+					}
+				});
+
+				return {
+					content: [{ text, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 34: List a card's versions
+		this.server.tool(
+			"get_card_versions",
+			"List every version of a card's content (instructions, reference answer, rubric, tags), oldest first, with when and where each edit was made and what it changed. Use before revert_card to pick a version. Example: {card_id: 5}",
+			{
+				card_id: z.number().describe("The ID of the card"),
+			},
+			async ({ card_id }) => {
+				const db = getUserDb();
+				const versions = await db.getCardVersions(card_id);
+
+				if (!versions) {
+					return {
+						content: [{ text: `Card ${card_id} not found`, type: "text" }],
+					};
+				}
+				if (versions.length === 1) {
+					return {
+						content: [{ text: `Card ${card_id} has never been edited`, type: "text" }],
+					};
+				}
+
+				let text = `=== Card ${card_id}: ${versions.length} versions (UTC) ===\n`;
+				for (const { version, content, since, source, changes, current } of versions) {
+					const date = since.replace("T", " ").slice(0, 16);
+					const how = version === 1 ? "created" : `edited${source ? ` via ${source.toUpperCase()}` : ""}: ${formatChanges(changes)}`;
+					text += `\nVersion ${version}${current ? " (current)" : ""} - ${date}, ${how}\n`;
+					text += `  Instructions: ${content.instructions}\n`;
+					if (content.reference_answer) text += `  Reference answer: ${content.reference_answer}\n`;
+					if (content.rubric) text += `  Rubric: ${content.rubric}\n`;
+					text += `  Tags: ${content.tags.join(", ") || "none"}\n`;
+				}
+
+				return {
+					content: [{ text: text.trim(), type: "text" }],
+				};
+			},
+		);
+
+		// Tool 35: Revert a card to an earlier version
+		this.server.tool(
+			"revert_card",
+			"Restore a card's content to an earlier version, undoing bad edits. Defaults to the version before the last edit; the revert is recorded as a new version, so it can be reverted too. Examples: {card_id: 5} undoes the last edit, {card_id: 5, version: 1} restores the original card",
+			{
+				card_id: z.number().describe("The ID of the card to revert"),
+				version: z
+					.number()
+					.int()
+					.optional()
+					.describe("Version to restore, as numbered by get_card_versions (default: the version before the last edit)"),
+			},
+			async ({ card_id, version }) => {
+				try {
+					const db = getUserDb();
+					const result = await db.revertCard(card_id, version);
+
+					if (!result) {
+						return {
+							content: [{ text: `Card ${card_id} not found`, type: "text" }],
+						};
+					}
+
+					return {
+						content: [
+							{
+								text: `Reverted card ${card_id} to version ${result.version}. Changed: ${formatChanges(result.changes)}`,
+								type: "text",
+							},
+						],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 36: List the trash
+		this.server.tool(
+			"list_trash",
+			"List deleted cards still in the trash, most recently deleted first, with when each will be deleted for good. Use restore_card to bring one back",
+			{},
+			async () => {
+				const db = getUserDb();
+				const cards = await db.listTrash();
+
+				if (cards.length === 0) {
+					return {
+						content: [{ text: "The trash is empty", type: "text" }],
+					};
+				}
+
+				const formatted = cards
+					.map(
+						(c) =>
+							`Card ${c.id}: ${c.instructions}\nTags: ${c.tags.join(", ") || "none"}\n` +
+							`Deleted: ${c.deleted_at.slice(0, 10)}, gone for good after ${c.purge_at.slice(0, 10)}`,
+					)
+					.join("\n\n");
+
+				return {
+					content: [{ text: `${cards.length} card(s) in the trash:\n\n${formatted}`, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 37: Restore cards from the trash (supports single or batch mode)
+		this.server.tool(
+			"restore_card",
+			"Bring deleted card(s) back from the trash with their schedule, review history, tags, siblings and prerequisites. A card whose instructions and reference answer have been added again since is refused as a duplicate unless on_duplicate is 'allow', and one whose prerequisites would now form a cycle is refused. Supports single or batch mode. Examples: Single - {card_id: 5}. Batch - {card_ids: [5, 8, 12]}",
+			{
+				card_id: z.number().optional().describe("(Single mode) The ID of the card to restore"),
+				card_ids: z
+					.array(z.number())
+					.optional()
+					.describe("(Batch mode) Array of card IDs to restore at once"),
+				on_duplicate: z
+					.enum(["reject", "allow"])
+					.optional()
+					.describe("What to do when a live card has the same instructions and reference answer: 'reject' (default) or 'allow' the restore anyway"),
+			},
+			async ({ card_id, card_ids, on_duplicate }) => {
+				const db = getUserDb();
+
+				// Batch mode
+				if (card_ids && card_ids.length > 0) {
+					const result = await db.restoreCardsInBatch(card_ids, on_duplicate);
+
+					let text = "";
+
+					if (result.successful.length > 0) {
+						const ids = result.successful.map(s => s.card_id).join(", ");
+						text += `Restored ${result.successful.length} card(s): ${ids}`;
+					}
+
+					if (result.failed.length > 0) {
+						if (text) text += "\n";
+						text += `Failed to restore ${result.failed.length} card(s):\n`;
+						for (const { card_id, error } of result.failed) {
+							text += `  - Card ${card_id}: ${error}\n`;
+						}
+					}
+
+					return {
+						content: [{ text: text.trim(), type: "text" }],
+					};
+				}
+
+				// Single mode
+				if (card_id !== undefined) {
+					try {
+						const success = await db.restoreCard(card_id, on_duplicate);
+
+						return {
+							content: [
+								{
+									text: success ? `Restored card ${card_id}` : `Card ${card_id} is not in the trash`,
+									type: "text",
+								},
+							],
+						};
+					} catch (error) {
+						return {
+							content: [
+								{
+									text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+									type: "text",
+								},
+							],
+						};
+					}
+				}
+
+				// Invalid input
+				return {
+					content: [
+						{
+							text: "Error: Must provide either (card_id) for single restore or (card_ids array) for batch restore",
+							type: "text",
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 38: Empty the trash
+		this.server.tool(
+			"empty_trash",
+			"Permanently delete cards in the trash, with their review history. This can't be undone - only use it when the user explicitly asks. Examples: {} empties the whole trash, {card_ids: [5, 8]} deletes just those",
+			{
+				card_ids: z
+					.array(z.number())
+					.optional()
+					.describe("Only delete these cards from the trash (default: everything in it)"),
+			},
+			async ({ card_ids }) => {
+				const db = getUserDb();
+				const deleted = await db.emptyTrash(card_ids);
+
+				return {
+					content: [
+						{
+							text: deleted > 0 ? `Permanently deleted ${deleted} card(s) from the trash` : "Nothing to delete - no matching cards in the trash",
+							type: "text",
+						},
+					],
+				};
+			},
+		);
+
+		// Tool 39: List tags with usage counts
+		this.server.tool(
+			"list_tags",
+			"List every tag in use with how many cards have it, to spot typos, near-duplicates ('py' vs 'python') and unused tags before cleaning up with rename_tag, merge_tags or delete_tag",
+			{},
+			async () => {
+				const db = getUserDb();
+				const tags = await db.listTags();
+
+				if (tags.length === 0) {
+					return {
+						content: [{ text: "No tags in use yet", type: "text" }],
+					};
+				}
+
+				const lines = tags.map(({ tag, cards }) => `  ${tag}: ${cards} card(s)`);
+				return {
+					content: [{ text: `=== ${tags.length} tag(s) ===\n${lines.join("\n")}`, type: "text" }],
+				};
+			},
+		);
+
+		// Tool 40: Rename a tag on every card
+		this.server.tool(
+			"rename_tag",
+			"Rename a tag on every card that has it, in one step instead of editing each card. Only the exact tag changes (use rename_deck to take subdecks along); renaming to a tag already in use merges them. Its per-tag settings follow. Example: {tag: 'pyhton', new_name: 'python'}",
+			{
+				tag: z.string().describe("The tag to rename, exactly as listed by list_tags"),
+				new_name: z.string().describe("The new tag name"),
+			},
+			async ({ tag, new_name }) => {
+				const db = getUserDb();
+
+				try {
+					const cards = await db.renameTag(tag, new_name);
+					return {
+						content: [{ text: `Renamed tag '${tag.trim()}' to '${new_name.trim()}' on ${cards} card(s)`, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 41: Merge tags into one
+		this.server.tool(
+			"merge_tags",
+			"Merge several tags into one: every card with any of them gets the target tag instead, and the old tags are removed. The target keeps its own per-tag settings if it has any. Example: {tags: 'py,Python,python3', into: 'python'}",
+			{
+				tags: z.string().describe("Comma-separated tags to merge away"),
+				into: z.string().describe("The tag to merge them into (created if not in use yet)"),
+			},
+			async ({ tags, into }) => {
+				const db = getUserDb();
+
+				try {
+					const tagArray = tags.split(",").map((t) => t.trim());
+					const cards = await db.mergeTags(tagArray, into);
+					return {
+						content: [{ text: `Merged ${tagArray.filter((t) => t).join(", ")} into '${into.trim()}' on ${cards} card(s)`, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
+		// Tool 42: Remove a tag from every card
+		this.server.tool(
+			"delete_tag",
+			"Remove a tag from every card that has it, along with its per-tag settings. The cards themselves are kept. Only the exact tag is removed, not subdecks. Example: {tag: 'todo'}",
+			{
+				tag: z.string().describe("The tag to remove, exactly as listed by list_tags"),
+			},
+			async ({ tag }) => {
+				const db = getUserDb();
+
+				try {
+					const cards = await db.deleteTag(tag);
+					return {
+						content: [{ text: `Removed tag '${tag.trim()}' from ${cards} card(s)`, type: "text" }],
+					};
+				} catch (error) {
+					return {
+						content: [
+							{
+								text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+								type: "text",
+							},
+						],
+					};
+				}
+			},
+		);
+
 		const initEnd = Date.now();
 		console.log(`[PERF] init() completed in ${initEnd - initStart}ms`);
 	}
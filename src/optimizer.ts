@@ -0,0 +1,177 @@
+/**
+ * FSRS parameter optimizer
+ *
+ * Fits personalized FSRS weights (w) to a user's review log by minimizing the log loss
+ * between the predicted retrievability at each review and whether the card was recalled
+ * (any rating other than Again). This is a derivative-free coordinate search, a much
+ * lighter cousin of the gradient-based optimizer that ships with Anki:
+ * https://github.com/open-spaced-repetition/fsrs-optimizer
+ *
+ * Every evaluation replays the log, so both the number of evaluations and the size of the
+ * log replayed (the most recently reviewed cards' histories) are capped to keep a run inside
+ * a Worker's CPU budget.
+ */
+
+import {
+	CLAMP_PARAMETERS,
+	FSRSAlgorithm,
+	W17_W18_Ceiling,
+	dateDiffInDays,
+	default_w,
+	generatorParameters,
+	type FSRSState,
+	type Grade,
+} from "ts-fsrs";
+
+export interface ReviewLogEntry {
+	card_id: number;
+	rating: Grade;
+	reviewed_at: Date;
+}
+
+export interface OptimizationResult {
+	parameters: number[];
+	review_count: number; // Reviews that contributed to the loss
+	card_count: number;
+	log_size: number; // Reviews in the log
+	sample_size: number; // Reviews replayed per evaluation (at most MAX_SAMPLE_REVIEWS, plus the rest of the last card's history)
+	loss_before: number;
+	loss_after: number;
+}
+
+// Below this many scored reviews the fitted weights mostly fit noise
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 100;
+
+const MAX_EVALUATIONS = 400;
+const MAX_SAMPLE_REVIEWS = 5000;
+const INITIAL_STEP = 0.1; // Fraction of each parameter's allowed range
+const MIN_STEP = 0.005;
+
+// A review sequence for one card: days since the previous review and the rating given
+type Sequence = Array<{ delta_t: number; rating: Grade }>;
+
+/**
+ * Group the log by card into chronological sequences, most recently reviewed card first,
+ * keeping whole cards until MAX_SAMPLE_REVIEWS reviews are in (a card's memory state
+ * depends on its whole history, so histories aren't cut short)
+ */
+function buildSequences(log: ReviewLogEntry[]): Sequence[] {
+	const byCard = new Map<number, ReviewLogEntry[]>();
+	for (const entry of log) {
+		const entries = byCard.get(entry.card_id) ?? [];
+		entries.push(entry);
+		byCard.set(entry.card_id, entries);
+	}
+
+	const histories = [...byCard.values()].map((entries) =>
+		entries.sort((a, b) => a.reviewed_at.getTime() - b.reviewed_at.getTime()),
+	);
+	histories.sort((a, b) => b[b.length - 1].reviewed_at.getTime() - a[a.length - 1].reviewed_at.getTime());
+
+	const sequences: Sequence[] = [];
+	let reviews = 0;
+	for (const entries of histories) {
+		if (reviews >= MAX_SAMPLE_REVIEWS) break;
+		reviews += entries.length;
+		sequences.push(
+			entries.map((entry, i) => ({
+				delta_t: i === 0 ? 0 : dateDiffInDays(entries[i - 1].reviewed_at, entry.reviewed_at),
+				rating: entry.rating,
+			})),
+		);
+	}
+	return sequences;
+}
+
+/**
+ * Mean log loss of the weights over all reviews that happened on a later day than the previous one
+ * (same-day reviews update the memory state but FSRS doesn't predict them)
+ */
+function evaluate(w: number[], sequences: Sequence[]): { loss: number; count: number } {
+	const algorithm = new FSRSAlgorithm(generatorParameters({ w }));
+	let total = 0;
+	let count = 0;
+
+	for (const sequence of sequences) {
+		let state: FSRSState | null = null;
+		for (const { delta_t, rating } of sequence) {
+			if (state && delta_t > 0) {
+				const r = Math.min(Math.max(algorithm.forgetting_curve(delta_t, state.stability), 1e-6), 1 - 1e-6);
+				total += rating > 1 ? -Math.log(r) : -Math.log(1 - r);
+				count++;
+			}
+			state = algorithm.next_state(state, delta_t, rating);
+		}
+	}
+
+	return { loss: count > 0 ? total / count : 0, count };
+}
+
+/**
+ * Fit FSRS weights to a review log, starting from the given weights
+ * Large logs are fitted on the most recent cards only (see buildSequences).
+ * Never returns weights that do worse than the starting point.
+ */
+export function optimizeParameters(log: ReviewLogEntry[], initial: readonly number[] = default_w): OptimizationResult {
+	const sequences = buildSequences(log);
+	const { loss: lossBefore, count } = evaluate([...initial], sequences);
+
+	if (count < MIN_REVIEWS_FOR_OPTIMIZATION) {
+		throw new Error(
+			`Need at least ${MIN_REVIEWS_FOR_OPTIMIZATION} reviews made on a later day than the previous review to optimize (have ${count})`,
+		);
+	}
+
+	const bounds = CLAMP_PARAMETERS(W17_W18_Ceiling, true);
+	const clampParam = (i: number, value: number) => Math.min(Math.max(value, bounds[i][0]), bounds[i][1]);
+
+	let best = initial.map((value, i) => clampParam(i, value));
+	let bestLoss = evaluate(best, sequences).loss;
+	let evaluations = 1;
+	let step = INITIAL_STEP;
+
+	// Coordinate search: nudge each weight up and down, keep any improvement,
+	// and halve the step once a full pass finds nothing better
+	while (step >= MIN_STEP && evaluations < MAX_EVALUATIONS) {
+		let improved = false;
+
+		for (let i = 0; i < best.length && evaluations < MAX_EVALUATIONS; i++) {
+			const delta = (bounds[i][1] - bounds[i][0]) * step;
+
+			for (const direction of [1, -1]) {
+				const candidate = [...best];
+				candidate[i] = clampParam(i, best[i] + direction * delta);
+				if (candidate[i] === best[i]) continue;
+
+				const { loss } = evaluate(candidate, sequences);
+				evaluations++;
+
+				if (loss < bestLoss) {
+					best = candidate;
+					bestLoss = loss;
+					improved = true;
+					break;
+				}
+			}
+		}
+
+		if (!improved) {
+			step /= 2;
+		}
+	}
+
+	if (bestLoss >= lossBefore) {
+		best = [...initial];
+		bestLoss = lossBefore;
+	}
+
+	return {
+		parameters: best.map((value) => Number(value.toFixed(4))),
+		review_count: count,
+		card_count: sequences.length,
+		log_size: log.length,
+		sample_size: sequences.reduce((sum, sequence) => sum + sequence.length, 0),
+		loss_before: lossBefore,
+		loss_after: bestLoss,
+	};
+}
@@ -0,0 +1,142 @@
+/**
+ * Ordering strategies for the due queue
+ *
+ * Which cards are due (and which fit within the daily limits) is decided before ordering;
+ * these functions only decide the order they're presented in.
+ */
+
+import { State } from "ts-fsrs";
+
+export const DUE_ORDERS = [
+	"retrievability_desc", // Most likely to be remembered first (FSRS recommendation for backlogs)
+	"retrievability_asc", // Closest to being forgotten first
+	"overdue", // Most overdue relative to the card's interval first
+	"due_date", // Earliest due date first
+	"random", // Shuffled, repeatable with the same seed
+	"difficulty", // Hardest first
+	"interleave", // Round-robin across tags so topics alternate
+] as const;
+
+export type DueOrder = (typeof DUE_ORDERS)[number];
+
+export const NEW_CARD_POSITIONS = ["mix", "first", "last"] as const;
+
+// Where new cards go relative to reviews: spread evenly among them, or all before/after
+export type NewCardPosition = (typeof NEW_CARD_POSITIONS)[number];
+
+export interface QueueEntry<T> {
+	item: T;
+	state: State;
+	retrievability: number; // 0 for new cards
+	due: Date;
+	scheduled_days: number;
+	difficulty: number;
+	tags: string[];
+}
+
+/**
+ * Order due cards by the given strategy, then place new cards according to newCardPosition
+ */
+export function orderQueue<T>(entries: QueueEntry<T>[], order: DueOrder, newCardPosition: NewCardPosition, seed: number, now: Date = new Date()): T[] {
+	const ordered = applyOrder(entries, order, seed, now);
+
+	const newCards = ordered.filter((entry) => entry.state === State.New);
+	const others = ordered.filter((entry) => entry.state !== State.New);
+
+	let placed: QueueEntry<T>[];
+	if (newCardPosition === "first") {
+		placed = [...newCards, ...others];
+	} else if (newCardPosition === "last") {
+		placed = [...others, ...newCards];
+	} else {
+		placed = spreadEvenly(others, newCards);
+	}
+
+	return placed.map((entry) => entry.item);
+}
+
+function applyOrder<T>(entries: QueueEntry<T>[], order: DueOrder, seed: number, now: Date): QueueEntry<T>[] {
+	const sorted = [...entries];
+	const dayMs = 24 * 60 * 60 * 1000;
+
+	switch (order) {
+		case "retrievability_desc":
+			return sorted.sort((a, b) => b.retrievability - a.retrievability);
+		case "retrievability_asc":
+			return sorted.sort((a, b) => a.retrievability - b.retrievability);
+		case "overdue": {
+			// Days overdue as a share of the interval: 3 days late on a 2-day interval beats 5 days late on 60
+			const overdueness = (entry: QueueEntry<T>) => (now.getTime() - entry.due.getTime()) / dayMs / Math.max(entry.scheduled_days, 1);
+			return sorted.sort((a, b) => overdueness(b) - overdueness(a));
+		}
+		case "due_date":
+			return sorted.sort((a, b) => a.due.getTime() - b.due.getTime());
+		case "random":
+			return shuffle(sorted, seed);
+		case "difficulty":
+			return sorted.sort((a, b) => b.difficulty - a.difficulty);
+		case "interleave":
+			return interleaveByTag(sorted.sort((a, b) => b.retrievability - a.retrievability));
+	}
+}
+
+/**
+ * Round-robin across tags (a card's first tag, alphabetically), keeping each tag's cards in order
+ */
+function interleaveByTag<T>(entries: QueueEntry<T>[]): QueueEntry<T>[] {
+	const groups = new Map<string, QueueEntry<T>[]>();
+	for (const entry of entries) {
+		const key = [...entry.tags].sort()[0] ?? "";
+		groups.set(key, [...(groups.get(key) ?? []), entry]);
+	}
+
+	const queues = [...groups.keys()].sort().map((key) => groups.get(key)!);
+	const result: QueueEntry<T>[] = [];
+	for (let i = 0; result.length < entries.length; i++) {
+		for (const queue of queues) {
+			if (i < queue.length) result.push(queue[i]);
+		}
+	}
+	return result;
+}
+
+/**
+ * Insert `extra` into `base` at evenly spaced positions, keeping both in order
+ */
+function spreadEvenly<T>(base: T[], extra: T[]): T[] {
+	if (extra.length === 0) return base;
+	if (base.length === 0) return extra;
+
+	const result: T[] = [];
+	const step = (base.length + extra.length) / extra.length;
+	let next = step / 2;
+	for (let i = 0, b = 0, e = 0; i < base.length + extra.length; i++) {
+		if (e < extra.length && i >= Math.floor(next)) {
+			result.push(extra[e++]);
+			next += step;
+		} else {
+			result.push(base[b++]);
+		}
+	}
+	return result;
+}
+
+/**
+ * Fisher-Yates shuffle driven by a seeded PRNG (mulberry32), so the same seed gives the same order
+ */
+function shuffle<T>(items: T[], seed: number): T[] {
+	let state = seed >>> 0;
+	const random = () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+
+	for (let i = items.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[items[i], items[j]] = [items[j], items[i]];
+	}
+	return items;
+}
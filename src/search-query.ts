@@ -0,0 +1,155 @@
+/**
+ * Search query language for card search
+ *
+ * A query is a list of space-separated terms, all of which must match:
+ *   binary "search tree" recurs*     free text (full-text search, * for prefix)
+ *   tag:python                      tag, including its subdecks
+ *   is:due is:new is:learning is:review is:suspended is:buried is:leech is:blocked
+ *   lapses>3 reps>=10 stability<5 difficulty>7 interval>30
+ *   created:>2026-01-01 reviewed:7d  date (in the user's timezone), or within the last N days
+ * Any term can be negated with a leading "-" (-tag:basics, -is:new, -recursion).
+ * Quote values that contain spaces or colons: tag:"data structures", "std::vector".
+ */
+
+export const IS_VALUES = ["due", "new", "learning", "review", "suspended", "buried", "leech", "blocked"] as const;
+export type IsValue = (typeof IS_VALUES)[number];
+
+// Fields compared with numbers (lapses>3) or dates (created:>2026-01-01)
+export const NUMBER_FIELDS = ["lapses", "reps", "stability", "difficulty", "interval"] as const;
+export type NumberField = (typeof NUMBER_FIELDS)[number];
+
+export const DATE_FIELDS = ["created", "reviewed"] as const;
+export type DateField = (typeof DATE_FIELDS)[number];
+
+export type Comparison = "=" | ">" | ">=" | "<" | "<=";
+
+export type SearchTerm = { negated: boolean } & (
+	| { kind: "text"; text: string; prefix: boolean }
+	| { kind: "tag"; tag: string }
+	| { kind: "is"; value: IsValue }
+	| { kind: "number"; field: NumberField; op: Comparison; value: number }
+	| { kind: "date"; field: DateField; op: Comparison; date: string } // "YYYY-MM-DD"
+	| { kind: "within"; field: DateField; days: number } // Today and the N-1 study days before
+);
+
+const FILTER = /^([a-z]+)(:>=|:<=|:>|:<|:=|:|>=|<=|>|<|=)(.*)$/is;
+
+/**
+ * Parse a search query into terms
+ * Throws an Error describing the first problem found.
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+	return tokenize(query).map(parseTerm);
+}
+
+/**
+ * Split on whitespace outside double quotes, keeping the quotes
+ */
+function tokenize(query: string): string[] {
+	const tokens: string[] = [];
+	let token = "";
+	let inQuotes = false;
+
+	for (const char of query) {
+		if (char === '"') {
+			inQuotes = !inQuotes;
+			token += char;
+		} else if (/\s/.test(char) && !inQuotes) {
+			if (token) tokens.push(token);
+			token = "";
+		} else {
+			token += char;
+		}
+	}
+
+	if (inQuotes) {
+		throw new Error("Invalid search: unterminated quote");
+	}
+	if (token) tokens.push(token);
+	return tokens;
+}
+
+function parseTerm(token: string): SearchTerm {
+	const negated = token.startsWith("-") && token.length > 1;
+	const body = negated ? token.slice(1) : token;
+
+	const match = body.startsWith('"') ? null : FILTER.exec(body);
+	if (!match) {
+		return parseText(body, negated);
+	}
+
+	const key = match[1].toLowerCase();
+	const op = (match[2].length > 1 && match[2].startsWith(":") ? match[2].slice(1) : match[2].replace(":", "=")) as Comparison;
+	const value = unquote(match[3]);
+
+	if (key === "tag" || key === "is") {
+		if (match[2] !== ":") {
+			throw new Error(`Invalid search: use ${key}:value, not '${body}'`);
+		}
+		if (!value) {
+			throw new Error(`Invalid search: '${body}' needs a value`);
+		}
+		if (key === "tag") {
+			return { kind: "tag", tag: value, negated };
+		}
+		if (!IS_VALUES.includes(value.toLowerCase() as IsValue)) {
+			throw new Error(`Invalid search: unknown '${body}' - use one of ${IS_VALUES.map((v) => `is:${v}`).join(", ")}`);
+		}
+		return { kind: "is", value: value.toLowerCase() as IsValue, negated };
+	}
+
+	if (NUMBER_FIELDS.includes(key as NumberField)) {
+		const number = Number(value);
+		if (!value || !Number.isFinite(number)) {
+			throw new Error(`Invalid search: '${body}' needs a number, e.g. ${key}>3`);
+		}
+		return { kind: "number", field: key as NumberField, op, value: number, negated };
+	}
+
+	if (DATE_FIELDS.includes(key as DateField)) {
+		const within = /^(\d+)d$/i.exec(value);
+		if (within && match[2] === ":") {
+			const days = Number(within[1]);
+			if (days < 1) {
+				throw new Error(`Invalid search: '${body}' needs at least 1 day`);
+			}
+			return { kind: "within", field: key as DateField, days, negated };
+		}
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isCalendarDate(value)) {
+			throw new Error(`Invalid search: '${body}' needs a date like ${key}:>2026-01-01 or a number of days like ${key}:7d`);
+		}
+		return { kind: "date", field: key as DateField, op, date: value, negated };
+	}
+
+	// Anything else that looks like a filter is most likely a typo
+	if (match[2] === ":") {
+		throw new Error(`Invalid search: unknown filter '${key}:' - put text containing ':' in quotes to search for it`);
+	}
+	return parseText(body, negated);
+}
+
+function parseText(body: string, negated: boolean): SearchTerm {
+	const prefix = body.endsWith("*") && !body.endsWith('"');
+	const text = unquote(prefix ? body.slice(0, -1) : body);
+	if (!text.trim()) {
+		throw new Error(`Invalid search: '${body}' has no text to search for`);
+	}
+	return { kind: "text", text, prefix, negated };
+}
+
+function isCalendarDate(value: string): boolean {
+	const date = new Date(`${value}T00:00:00Z`);
+	return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function unquote(value: string): string {
+	return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Quote text as an FTS5 phrase so punctuation and keywords (AND, OR, NEAR) are searched for
+ * literally instead of being parsed as FTS5 syntax
+ */
+export function toFtsPhrase(text: string, prefix: boolean): string {
+	return `"${text.replace(/"/g, '""')}"${prefix ? "*" : ""}`;
+}
@@ -0,0 +1,78 @@
+/**
+ * Text similarity for spotting duplicate cards
+ *
+ * Scores are the Dice coefficient of the two texts' character trigrams after normalizing
+ * case, punctuation and whitespace: 1 for the same text, above 0.8 for a light rewording
+ * ("Practice Python decorators" / "Practice writing Python decorators"), around 0.6 for
+ * different cards on one topic and near 0 for unrelated text. Word order matters little,
+ * so reordered phrases still score high.
+ */
+
+// Scores at or above this count as duplicates
+export const DUPLICATE_THRESHOLD = 0.8;
+
+// Words too common to help find candidates
+const STOPWORDS = new Set([
+	"the", "and", "for", "with", "that", "this", "from", "into", "about", "are", "was", "were", "how", "what",
+	"when", "why", "which", "their", "your", "you", "they", "them", "its", "not", "but", "can", "use", "using",
+	"practice", "explain", "write", "problems", "questions",
+]);
+
+/**
+ * Lowercase, with punctuation dropped and whitespace collapsed
+ */
+export function normalizeText(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim();
+}
+
+/**
+ * Similarity of two texts from 0 (nothing in common) to 1 (same after normalizing)
+ */
+export function similarity(a: string, b: string): number {
+	const left = normalizeText(a);
+	const right = normalizeText(b);
+	if (left === right) return 1;
+
+	const leftGrams = trigrams(left);
+	const rightGrams = trigrams(right);
+	const total = sum(leftGrams) + sum(rightGrams);
+	if (total === 0) return 0;
+
+	let shared = 0;
+	for (const [gram, count] of leftGrams) {
+		shared += Math.min(count, rightGrams.get(gram) ?? 0);
+	}
+	return (2 * shared) / total;
+}
+
+/**
+ * Distinctive words of a text, for finding candidate duplicates with full-text search
+ */
+export function keywords(text: string, max: number = 16): string[] {
+	const words = normalizeText(text)
+		.split(" ")
+		.filter((word) => word.length >= 3 && !STOPWORDS.has(word));
+	return [...new Set(words)].slice(0, max);
+}
+
+// Counted per word with padding, so words score the same whatever order they're in
+function trigrams(text: string): Map<string, number> {
+	const grams = new Map<string, number>();
+	for (const word of text.split(" ").filter(Boolean)) {
+		const padded = `  ${word} `;
+		for (let i = 0; i < padded.length - 2; i++) {
+			const gram = padded.slice(i, i + 3);
+			grams.set(gram, (grams.get(gram) ?? 0) + 1);
+		}
+	}
+	return grams;
+}
+
+function sum(counts: Map<string, number>): number {
+	let total = 0;
+	for (const count of counts.values()) total += count;
+	return total;
+}
@@ -8,21 +8,159 @@
  * - Reviews table stores CURRENT state only (history in review_history table)
  */
 
-import { fsrs, Card, Rating, State, type Grade, type RecordLogItem, createEmptyCard } from 'ts-fsrs';
+import {
+	fsrs,
+	FSRS,
+	Card,
+	Rating,
+	State,
+	type Grade,
+	type RecordLogItem,
+	type StepUnit,
+	createEmptyCard,
+	default_learning_steps,
+	default_maximum_interval,
+	default_relearning_steps,
+	default_request_retention,
+	default_w,
+	generatorParameters,
+} from 'ts-fsrs';
+import { detectDelimiter, formatDelimited, parseDelimited } from './csv';
+import { optimizeParameters, type OptimizationResult, type ReviewLogEntry } from './optimizer';
+import { readAnkiPackage, writeAnkiPackage, type AnkiExportCard, type AnkiExportReview, type AnkiReview } from './anki';
+import { daysBetween, isValidTimeZone, startOfNextStudyDay, startOfStudyDay, studyDay, addDays, type DayClock } from './time';
+import { NEW_CARD_POSITIONS, orderQueue, type DueOrder, type NewCardPosition } from './queue';
+import { parseSearchQuery, toFtsPhrase, type SearchTerm } from './search-query';
+import { DUPLICATE_THRESHOLD, keywords, normalizeText, similarity } from './similarity';
+
+export interface DueCardOptions {
+	order?: DueOrder; // Defaults to retrievability_desc
+	seed?: number; // For random order; defaults to one per study day
+}
+
+// Card listings are paged: pass next_cursor back as cursor to get the following page
+export interface PageOptions {
+	limit?: number; // All remaining cards if omitted
+	cursor?: string; // From a previous page's next_cursor
+}
+
+export interface CardPage {
+	cards: CardData[];
+	total: number; // Matching cards across all pages
+	next_cursor: string | null; // null on the last page
+}
 
 export interface CardData {
 	id: number;
 	instructions: string;
+	reference_answer: string | null;
+	rubric: string | null;
 	tags: string[];
 	due: string;
 }
 
+// What add_card does when the instructions match an existing card: refuse, fold the new
+// tags and grading material into the existing card, or create the card anyway
+export type DuplicateAction = "reject" | "merge" | "allow";
+
+export interface DuplicateMatch {
+	card_id: number;
+	instructions: string;
+	similarity: number; // 0-1, see similarity.ts
+}
+
+export interface AddCardOptions {
+	sibling_of?: number;
+	on_duplicate?: DuplicateAction; // Defaults to reject for identical text, allow for merely similar text
+}
+
+export interface AddCardResult {
+	card_id: number | null; // The new card, the card merged into, or null if rejected
+	action: "created" | "merged" | "rejected";
+	duplicates: DuplicateMatch[]; // Most similar first
+}
+
+// Optional grading material stored with a card's instructions, so answers are graded
+// against the same standard every session
+export interface CardDetails {
+	reference_answer?: string | null; // What a correct answer looks like
+	rubric?: string | null; // How to grade an answer (criteria, common mistakes, partial credit)
+}
+
 export interface ReviewResult {
-	next_review: string;
+	next_review: string; // Study day the card is due (YYYY-MM-DD, user's timezone)
+	days_until: number; // Study days from today until next_review (0 = later today)
 	interval: number;
+	lapses: number;
+	leech: boolean; // This review made the card a leech (see leech_threshold)
+	buried_siblings: number; // Sibling cards buried until the next study day (see bury_siblings)
+}
+
+// What was asked and answered in a review, kept with the review so later sessions
+// can avoid repeating problems and see how the learner's mistakes change
+export interface ReviewTranscript {
+	question?: string | null; // The problem the tutor generated
+	user_answer?: string | null; // What the learner answered
+	feedback?: string | null; // The tutor's feedback on the answer
+}
+
+export interface TranscriptEntry {
+	review_id: number;
+	reviewed_at: string; // ISO 8601
+	rating: number | null;
+	question: string | null;
+	user_answer: string | null;
+	feedback: string | null;
+}
+
+// A card's editable content, as stored in card_versions before each edit
+export interface CardVersion {
+	instructions: string;
+	reference_answer: string | null;
+	rubric: string | null;
+	tags: string[];
+}
+
+export interface Change<T> {
+	before: T;
+	after: T;
+}
+
+export type CardHistoryEvent =
+	| { type: "created"; at: string }
+	| {
+			type: "review";
+			at: string;
+			rating: number | null; // null for reviews recorded before ratings were stored
+			state: Change<string>; // "New", "Learning", "Review" or "Relearning"
+			stability: Change<number>;
+			difficulty: Change<number>;
+			lapses: Change<number>;
+			due: string; // Due date set by the review
+			interval_days: number; // From the review to that due date
+	  }
+	| { type: "edit"; at: string; source: EditSource | null; changes: CardChanges };
+
+export type CardChanges = { [K in keyof CardVersion]?: Change<CardVersion[K]> };
+
+// Which client an edit came from, recorded with each version
+export type EditSource = "mcp" | "rest";
+
+export interface CardVersionEntry {
+	version: number; // 1 = as created, the last one is the current content
+	content: CardVersion;
+	since: string; // When the card was created or the edit that made this version happened (ISO 8601)
+	source: EditSource | null; // Who made the edit - null for version 1 and edits made before sources were recorded
+	changes: CardChanges; // What the edit changed from the previous version
+	current: boolean;
+}
+
+export interface CardHistory {
+	card: CardData;
+	events: CardHistoryEvent[]; // Oldest first, all times ISO 8601
 }
 
-export interface BatchReviewInput {
+export interface BatchReviewInput extends ReviewTranscript {
 	card_id: number;
 	rating: Grade;
 }
@@ -30,7 +168,10 @@ export interface BatchReviewInput {
 export interface BatchReviewSuccess {
 	card_id: number;
 	next_review: string;
+	days_until: number;
 	interval: number;
+	leech: boolean;
+	buried_siblings: number;
 }
 
 export interface BatchReviewFailure {
@@ -46,14 +187,14 @@ export interface BatchReviewResult {
 export interface BatchSearchInput {
 	query: string;
 	tags?: string[];
+	limit?: number;
 }
 
-export interface BatchSearchSuccess {
+export interface BatchSearchSuccess extends CardPage {
 	query: string;
-	cards: CardData[];
 }
 
-export interface BatchEditInput {
+export interface BatchEditInput extends CardDetails {
 	card_id: number;
 	instructions?: string;
 	tags?: string[];
@@ -65,20 +206,290 @@ export interface BatchOperationResult<T> {
 }
 
 export interface Stats {
-	due_today: number;
-	total: number;
+	due_today: number; // Within today's daily limits
+	held_back: number; // Due but over today's new card / review limits
+	new_remaining_today: number;
+	reviews_remaining_today: number;
+	total: number; // Every card outside the trash, hidden ones included
 	cards_reviewed_last_24h: number;
 	current_streak: number;
 	longest_streak: number;
 	total_reviews: number;
+	suspended: number; // Hidden cards, counted in total but never due
+	buried: number;
+	blocked: number;
 	by_tag?: Record<string, { total: number; due: number }>;
 }
 
+// Progress against the daily limits for the current study day
+export interface DailyLimits {
+	new_cards_per_day: number;
+	new_today: number; // New cards reviewed for the first time today
+	new_remaining: number;
+	reviews_per_day: number;
+	reviews_today: number; // Reviews of review cards today plus first reviews of new cards (learning steps don't count)
+	reviews_remaining: number;
+}
+
+// Cards left out of due lists and stats
+export interface HiddenCounts {
+	suspended: number; // Until unsuspended
+	buried: number; // Until the next day
+	blocked: number; // New cards waiting for their prerequisites to be learned
+}
+
+export type StateCounts = Record<"new" | "learning" | "review" | "relearning", number>;
+
+export interface ForecastDay {
+	date: string; // Study day (YYYY-MM-DD, user's timezone)
+	due: number; // Cards served that day within the daily limits (the first day includes overdue cards)
+	by_state: StateCounts;
+	by_tag: Record<string, number>; // A card with several tags counts once per tag
+	projected_lapses?: number; // Expected number of those reviews that end in Again (each adds relearning reviews)
+}
+
+export interface Forecast {
+	overdue: number;
+	total: number; // Cards served over the whole window
+	held_back: number; // Due within the window but pushed past its end by the daily limits
+	days: ForecastDay[];
+}
+
+export interface RetentionGroup {
+	reviews: number;
+	retention: number; // Share of reviews not rated Again
+	// Mean FSRS retrievability at review time, and actual minus predicted retention, over the
+	// reviews that had a memory state (not first reviews). null when there were none
+	predicted: number | null;
+	difference: number | null; // Positive = recalled more often than FSRS expected
+}
+
+export interface RetentionReport {
+	desired_retention: number;
+	overall: RetentionGroup;
+	by_tag: Record<string, RetentionGroup>;
+	by_state: Record<string, RetentionGroup>; // Card state before the review
+	by_interval: Record<string, RetentionGroup>; // Days since the previous review
+}
+
+export interface ImportResult {
+	created: Array<{ index: number; card_id: number }>;
+	skipped: Array<{ index: number; card_id: number; reason: string }>;
+	failed: Array<{ index: number; error: string }>;
+}
+
+export interface CsvImportOptions {
+	delimiter?: string; // "," or "\t"; detected from the header row when omitted
+	// Header names to read each field from (defaults: instructions/front/question, tags, due)
+	columns?: { instructions?: string; tags?: string; due?: string; reference_answer?: string; rubric?: string };
+}
+
+export interface AnkiImportOptions {
+	// Replay Anki's review log through FSRS so existing progress carries over (off by default:
+	// the cards start new)
+	include_scheduling?: boolean;
+}
+
+// Bump when the backup format changes in a way older restores can't read
+export const BACKUP_VERSION = 1;
+
+// Raw FSRS columns of a reviews / review_history row
+export interface ReviewState {
+	state: number;
+	due: string;
+	stability: number;
+	difficulty: number;
+	elapsed_days: number;
+	scheduled_days: number;
+	learning_steps: number;
+	reps: number;
+	lapses: number;
+	last_review: string | null;
+}
+
+export interface BackupHistoryEntry extends ReviewState, ReviewTranscript {
+	rating: number | null;
+	reviewed_at: string | null;
+	review_elapsed_days: number | null;
+	created_at: string;
+}
+
+export interface BackupCard {
+	id: number; // ID at backup time - remapped on restore
+	instructions: string;
+	reference_answer?: string | null; // Missing in backups made before these fields existed
+	rubric?: string | null;
+	created_at: string;
+	tags: string[];
+	suspended?: boolean; // Missing in backups made before suspending existed
+	group_id?: number | null; // Sibling group at backup time - remapped on restore
+	prerequisites?: number[]; // Card IDs at backup time
+	review: ReviewState;
+	history: BackupHistoryEntry[]; // Oldest first
+}
+
+export interface AccountBackup {
+	version: number;
+	exported_at: string;
+	user_id: string;
+	cards: BackupCard[];
+}
+
+export interface RestoreResult {
+	dry_run: boolean;
+	created: Array<{ old_id: number; new_id: number | null }>; // new_id is null in a dry run
+	skipped: Array<{ old_id: number; card_id: number | null; reason: string }>; // card_id is null in a dry run for repeats within the backup
+	failed: Array<{ old_id: number; error: string }>;
+}
+
+export interface SchedulerParameters {
+	parameters: number[];
+	personalized: boolean; // false = FSRS defaults
+	review_count: number | null;
+	loss_before: number | null;
+	loss_after: number | null;
+	updated_at: string | null;
+}
+
+// Settings that shape FSRS scheduling - these can also be overridden per tag
+export interface SchedulerSettings {
+	desired_retention: number; // Target probability of recall when a card comes due
+	maximum_interval: number; // Longest interval in days
+	learning_steps: StepUnit[]; // Short-term steps for new cards, e.g. ["1m", "10m"]
+	relearning_steps: StepUnit[]; // Short-term steps after forgetting a card
+	enable_fuzz: boolean; // Randomize intervals slightly so cards added together spread out
+}
+
+export interface Settings extends SchedulerSettings {
+	leech_threshold: number; // Lapses after which a card counts as a leech
+	leech_action: LeechAction;
+	timezone: string; // IANA timezone used for "today", due days and streaks
+	day_rollover_hour: number; // Local hour (0-23) at which a new study day starts
+	new_cards_per_day: number; // New cards introduced per study day
+	reviews_per_day: number; // Reviews per study day, new cards included
+	new_card_position: NewCardPosition;
+	bury_siblings: boolean; // After reviewing a card, bury its siblings until the next study day
+	prerequisite_stability: number; // Stability (days) a prerequisite needs before cards that depend on it are introduced
+	trash_retention_days: number; // Days a deleted card stays in the trash before it's deleted for good
+}
+
+// What happens to a card when it becomes a leech: always tagged, optionally suspended too
+export type LeechAction = "tag" | "suspend";
+
+// Tag given to leeches
+export const LEECH_TAG = "leech";
+
+export interface LeechCard extends CardData {
+	lapses: number;
+	suspended: boolean;
+	lapse_history: string[]; // When the card was forgotten (ISO 8601), oldest first
+}
+
+// Where a card stands in the prerequisite graph. A prerequisite counts as learned once it has
+// been reviewed and its stability reaches prerequisite_stability
+export interface LearningPathStep extends CardData {
+	state: "new" | "learning" | "learned";
+	stability: number; // Days
+	suspended: boolean;
+	prerequisites: number[];
+	blocked_by: number[]; // Prerequisites not yet learned - a new card stays out of due lists until this is empty
+}
+
+export interface TagUsage {
+	tag: string;
+	cards: number; // Cards with exactly this tag (subdecks not included)
+}
+
+export interface TrashedCard extends CardData {
+	deleted_at: string; // ISO 8601
+	purge_at: string; // When it will be deleted for good (ISO 8601)
+}
+
+export interface SettingsView {
+	settings: Settings; // Effective user-wide settings (defaults + user's changes)
+	tag_overrides: Record<string, Partial<SchedulerSettings>>;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+	desired_retention: default_request_retention,
+	maximum_interval: default_maximum_interval,
+	learning_steps: [...default_learning_steps],
+	relearning_steps: [...default_relearning_steps],
+	enable_fuzz: false,
+	leech_threshold: 8,
+	leech_action: "tag",
+	timezone: "UTC",
+	day_rollover_hour: 0,
+	new_cards_per_day: 20,
+	reviews_per_day: 200,
+	new_card_position: "last",
+	bury_siblings: true,
+	prerequisite_stability: 7,
+	trash_retention_days: 30,
+};
+
+// Only scheduler settings make sense per tag; the rest are user-wide
+const SCHEDULER_SETTING_KEYS: Array<keyof SchedulerSettings> = [
+	"desired_retention",
+	"maximum_interval",
+	"learning_steps",
+	"relearning_steps",
+	"enable_fuzz",
+];
+
+// Validators return an error message, or null if the value is acceptable
+const isSteps = (value: unknown) =>
+	Array.isArray(value) && value.every((step) => typeof step === "string" && /^\d+(\.\d+)?[mhd]$/.test(step));
+
+const SETTING_VALIDATORS: { [K in keyof Settings]: (value: unknown) => string | null } = {
+	desired_retention: (value) =>
+		typeof value === "number" && value >= 0.7 && value <= 0.99 ? null : "must be a number between 0.7 and 0.99",
+	maximum_interval: (value) =>
+		Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 36500 ? null : "must be a whole number of days between 1 and 36500",
+	learning_steps: (value) => (isSteps(value) ? null : "must be a list of steps like '1m', '10m', '1h' or '1d'"),
+	relearning_steps: (value) => (isSteps(value) ? null : "must be a list of steps like '10m', '1h' or '1d'"),
+	enable_fuzz: (value) => (typeof value === "boolean" ? null : "must be true or false"),
+	leech_threshold: (value) =>
+		Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 99 ? null : "must be a whole number between 1 and 99",
+	leech_action: (value) => (value === "tag" || value === "suspend" ? null : "must be 'tag' or 'suspend'"),
+	timezone: (value) =>
+		typeof value === "string" && isValidTimeZone(value) ? null : "must be an IANA timezone name like 'America/Los_Angeles' or 'UTC'",
+	day_rollover_hour: (value) =>
+		Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23 ? null : "must be a whole hour between 0 and 23",
+	new_cards_per_day: (value) =>
+		Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 9999 ? null : "must be a whole number between 0 and 9999",
+	reviews_per_day: (value) =>
+		Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 9999 ? null : "must be a whole number between 0 and 9999",
+	new_card_position: (value) =>
+		NEW_CARD_POSITIONS.includes(value as NewCardPosition) ? null : `must be one of: ${NEW_CARD_POSITIONS.join(", ")}`,
+	bury_siblings: (value) => (typeof value === "boolean" ? null : "must be true or false"),
+	prerequisite_stability: (value) =>
+		typeof value === "number" && value >= 0 && value <= 365 ? null : "must be a number of days between 0 and 365",
+	trash_retention_days: (value) =>
+		Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 365 ? null : "must be a whole number of days between 1 and 365",
+};
+
+// SQL conditions on cards c. Buried cards come back on their own once buried_until passes
+const CARD_BURIED = "(c.buried_until IS NOT NULL AND datetime(c.buried_until) > datetime('now'))";
+const CARD_ACTIVE = `c.suspended = 0 AND NOT ${CARD_BURIED}`;
+
+// Trashed cards are kept until trash_retention_days passes, but only the trash methods see them
+const CARD_NOT_TRASHED = "c.deleted_at IS NULL";
+// The same for tables keyed by card_id, like review_history (binds the user ID)
+const CARD_ID_NOT_TRASHED = "card_id IN (SELECT id FROM cards WHERE user_id = ? AND deleted_at IS NULL)";
+
+// Separator between deck levels in a tag, as in Anki ("cs::algorithms::graphs")
+export const DECK_SEPARATOR = "::";
+
 export class SpacedRepetition {
-	// FSRS scheduler - handles all spaced repetition math
+	// FSRS schedulers - handle all spaced repetition math
 	// Uses machine learning-based algorithm for optimal review scheduling
 	// See: https://github.com/open-spaced-repetition/ts-fsrs
-	private scheduler = fsrs();
+	// Built lazily from the user's fitted parameters and settings, one per distinct
+	// combination of tag overrides (see getScheduler)
+	private schedulers = new Map<string, FSRS>();
+	private parameters?: Promise<SchedulerParameters>;
+	private settings?: Promise<SettingsView>;
 
 	constructor(
 		private db: D1Database,
@@ -86,16 +497,21 @@ export class SpacedRepetition {
 		// ALL queries MUST filter by this to ensure user isolation
 		// Example: WHERE user_id = 'user@gmail.com'
 		private userId: string,
+		// Recorded with each card edit so the history shows where it came from
+		private source: EditSource = "mcp",
 	) {}
 
 	/**
-	 * Add a new card with instructions and tags
+	 * Add a new card with instructions, tags and optional reference answer/rubric
+	 * Pass siblingOf to put the card in the same sibling group as an existing card.
 	 */
-	async addCard(instructions: string, tags: string[]): Promise<number> {
+	async addCard(instructions: string, tags: string[], details: CardDetails = {}, siblingOf?: number): Promise<number> {
+		const groupId = siblingOf !== undefined ? await this.getOrCreateGroup(siblingOf) : null;
+
 		// Insert card
 		const result = await this.db
-			.prepare("INSERT INTO cards (user_id, instructions) VALUES (?, ?)")
-			.bind(this.userId, instructions)
+			.prepare("INSERT INTO cards (user_id, instructions, reference_answer, rubric, group_id) VALUES (?, ?, ?, ?, ?)")
+			.bind(this.userId, instructions, details.reference_answer?.trim() || null, details.rubric?.trim() || null, groupId)
 			.run();
 
 		const cardId = result.meta.last_row_id as number;
@@ -140,68 +556,201 @@ export class SpacedRepetition {
 	}
 
 	/**
-	 * Search cards using FTS or simple filter
+	 * Add a card unless it duplicates an existing one (see DuplicateAction)
+	 * Merging adds the new tags to the most similar card and fills in its reference answer
+	 * and rubric if it has none; its instructions are kept.
 	 */
-	async searchCards(query: string = "", tags: string[] = []): Promise<CardData[]> {
-		let sql: string;
-		let params: any[];
+	async addCardWithDuplicateCheck(
+		instructions: string,
+		tags: string[],
+		details: CardDetails = {},
+		options: AddCardOptions = {},
+	): Promise<AddCardResult> {
+		const duplicates = await this.findDuplicates(instructions);
+		// Distinct cards on one topic ("time complexity" vs "space complexity" of quicksort) can
+		// score above the threshold, so unless told otherwise only identical text is refused
+		const identical = duplicates.some((match) => normalizeText(match.instructions) === normalizeText(instructions));
+		const onDuplicate = options.on_duplicate ?? (identical ? "reject" : "allow");
+
+		if (duplicates.length === 0 || onDuplicate === "allow") {
+			const cardId = await this.addCard(instructions, tags, details, options.sibling_of);
+			return { card_id: cardId, action: "created", duplicates };
+		}
 
-		if (query) {
-			// Use FTS search
-			sql = `
-        SELECT c.id, c.instructions, r.due,
-               GROUP_CONCAT(t.tag) as tags
-        FROM cards_fts fts
-        JOIN cards c ON fts.rowid = c.id
-        JOIN reviews r ON c.id = r.card_id
-        LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
-        WHERE cards_fts MATCH ? AND c.user_id = ?
-      `;
-			params = [this.userId, query, this.userId];
-		} else {
-			sql = `
-        SELECT c.id, c.instructions, r.due,
-               GROUP_CONCAT(t.tag) as tags
-        FROM cards c
-        JOIN reviews r ON c.id = r.card_id
-        LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
-        WHERE c.user_id = ?
-      `;
-			params = [this.userId, this.userId];
+		if (onDuplicate === "reject") {
+			return { card_id: null, action: "rejected", duplicates };
+		}
+
+		const target = duplicates[0].card_id;
+		const existing = await this.db
+			.prepare("SELECT reference_answer, rubric FROM cards WHERE id = ? AND user_id = ?")
+			.bind(target, this.userId)
+			.first();
+		const existingTags = await this.getCardTags(target);
+		const newTags = tags.map((tag) => tag.trim()).filter((tag) => tag && !existingTags.includes(tag));
+
+		await this.editCard(target, undefined, newTags.length > 0 ? [...existingTags, ...newTags] : undefined, {
+			reference_answer: existing?.reference_answer ? undefined : details.reference_answer,
+			rubric: existing?.rubric ? undefined : details.rubric,
+		});
+		return { card_id: target, action: "merged", duplicates };
+	}
+
+	/**
+	 * Existing cards whose instructions are at least `threshold` similar, most similar first
+	 * Full-text search narrows the candidates; the score itself is computed here
+	 */
+	async findDuplicates(instructions: string, threshold: number = DUPLICATE_THRESHOLD): Promise<DuplicateMatch[]> {
+		const words = keywords(instructions);
+		const candidates = new Map<number, string>();
+
+		if (words.length > 0) {
+			const result = await this.db
+				.prepare(
+					`SELECT c.id, c.instructions
+           FROM cards_fts fts
+           JOIN cards c ON fts.rowid = c.id
+           WHERE cards_fts MATCH ? AND c.user_id = ? AND ${CARD_NOT_TRASHED}
+           ORDER BY fts.rank
+           LIMIT 25`,
+				)
+				.bind(words.map((word) => toFtsPhrase(word, false)).join(" OR "), this.userId)
+				.all();
+			for (const row of result.results as any[]) candidates.set(row.id, row.instructions);
+		}
+
+		// Text made only of short or common words never reaches full-text search
+		const exactId = await this.findCardByInstructions(instructions);
+		if (exactId !== null) candidates.set(exactId, instructions);
+
+		return [...candidates]
+			.map(([cardId, text]) => ({ card_id: cardId, instructions: text, similarity: Number(similarity(instructions, text).toFixed(2)) }))
+			.filter((match) => match.similarity >= threshold)
+			.sort((a, b) => b.similarity - a.similarity);
+	}
+
+	/**
+	 * Search cards with the search query language (see search-query.ts), one page at a time
+	 * Free text goes to full-text search; filters like tag:, is: and lapses> become SQL conditions.
+	 */
+	async searchCards(query: string = "", tags: string[] = [], page: PageOptions = {}): Promise<CardPage> {
+		const terms = parseSearchQuery(query);
+
+		let where = `c.user_id = ? AND ${CARD_NOT_TRASHED}`;
+		const params: any[] = [this.userId];
+
+		for (const term of terms) {
+			const condition = await this.searchCondition(term);
+			where += ` AND ${term.negated ? "NOT " : ""}${condition.sql}`;
+			params.push(...condition.params);
 		}
 
 		if (tags.length > 0) {
-			const placeholders = tags.map(() => "?").join(",");
-			sql += ` AND c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND tag IN (${placeholders}))`;
-			params.push(this.userId, ...tags);
+			const filter = this.tagFilter(tags);
+			where += filter.sql;
+			params.push(...filter.params);
 		}
 
-		sql += " GROUP BY c.id ORDER BY c.created_at DESC";
+		return this.pageCards("cards c JOIN reviews r ON c.id = r.card_id", where, params, page);
+	}
 
-		const result = await this.db.prepare(sql).bind(...params).all();
-		return result.results.map((row) => this.formatCardRow(row));
+	/**
+	 * SQL condition on cards c / reviews r for one search term (negation is left to the caller)
+	 */
+	private async searchCondition(term: SearchTerm): Promise<{ sql: string; params: any[] }> {
+		switch (term.kind) {
+			case "text":
+				return {
+					sql: "c.id IN (SELECT rowid FROM cards_fts WHERE cards_fts MATCH ?)",
+					params: [toFtsPhrase(term.text, term.prefix)],
+				};
+			case "tag":
+				return this.tagCondition([term.tag]);
+			case "is":
+				switch (term.value) {
+					case "due": {
+						const due = await this.dueFilter();
+						return { sql: `(${due.sql} AND ${CARD_ACTIVE})`, params: due.params };
+					}
+					case "new":
+						return { sql: `r.state = ${State.New}`, params: [] };
+					case "learning":
+						return { sql: `r.state IN (${State.Learning}, ${State.Relearning})`, params: [] };
+					case "review":
+						return { sql: `r.state = ${State.Review}`, params: [] };
+					case "suspended":
+						return { sql: "c.suspended = 1", params: [] };
+					case "buried":
+						return { sql: CARD_BURIED, params: [] };
+					case "leech": {
+						const { leech_threshold } = (await this.getSettings()).settings;
+						return {
+							sql: "(r.lapses >= ? OR c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND tag = ?))",
+							params: [leech_threshold, this.userId, LEECH_TAG],
+						};
+					}
+					case "blocked":
+						return this.blockedFilter();
+				}
+			case "number": {
+				const column = { lapses: "r.lapses", reps: "r.reps", stability: "r.stability", difficulty: "r.difficulty", interval: "r.scheduled_days" }[term.field];
+				return { sql: `${column} ${term.op} ?`, params: [term.value] };
+			}
+			case "date":
+			case "within": {
+				// A card that was never reviewed has no last_review, so it never matches reviewed:... and always matches -reviewed:...
+				const column = term.field === "created" ? "c.created_at" : "r.last_review";
+				const clock = await this.getClock();
+				const range = (from: Date | null, to: Date | null) => ({
+					sql: `(${column} IS NOT NULL${from ? ` AND datetime(${column}) >= datetime(?)` : ""}${to ? ` AND datetime(${column}) < datetime(?)` : ""})`,
+					params: [from, to].filter((date) => date !== null).map((date) => date!.toISOString()),
+				});
+
+				if (term.kind === "within") {
+					return range(startOfStudyDay(addDays(studyDay(new Date(), clock), 1 - term.days), clock), null);
+				}
+
+				const start = startOfStudyDay(term.date, clock);
+				const end = startOfStudyDay(addDays(term.date, 1), clock);
+				switch (term.op) {
+					case ">":
+						return range(end, null);
+					case ">=":
+						return range(start, null);
+					case "<":
+						return range(null, start);
+					case "<=":
+						return range(null, end);
+					case "=":
+						return range(start, end);
+				}
+			}
+		}
 	}
 
 	/**
 	 * Get cards due for review, sorted by FSRS retrievability (descending)
+	 * Only as many new cards and reviews as today's daily limits allow are returned.
 	 */
-	async getDueCards(limit?: number, tags: string[] = []): Promise<CardData[]> {
+	async getDueCards(limit?: number, tags: string[] = [], options: DueCardOptions = {}): Promise<CardData[]> {
+		const due = await this.dueFilter();
+
 		// Fetch all FSRS data needed for retrievability calculation
 		let sql = `
-      SELECT c.id, c.instructions, r.due, r.state, r.stability, r.difficulty,
+      SELECT c.id, c.instructions, c.reference_answer, c.rubric, r.due, r.state, r.stability, r.difficulty,
              r.elapsed_days, r.scheduled_days, r.learning_steps, r.reps, r.lapses,
              r.last_review, GROUP_CONCAT(t.tag) as tags
       FROM cards c
       JOIN reviews r ON c.id = r.card_id
       LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
-      WHERE c.user_id = ? AND datetime(r.due) <= datetime('now')
+      WHERE c.user_id = ? AND ${CARD_NOT_TRASHED} AND ${due.sql} AND ${CARD_ACTIVE}
     `;
-		const params: any[] = [this.userId, this.userId];
+		const params: any[] = [this.userId, this.userId, ...due.params];
 
 		if (tags.length > 0) {
-			const placeholders = tags.map(() => "?").join(",");
-			sql += ` AND c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND tag IN (${placeholders}))`;
-			params.push(this.userId, ...tags);
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
 		}
 
 		sql += " GROUP BY c.id";
@@ -211,65 +760,164 @@ export class SpacedRepetition {
 		// Calculate retrievability for each card and sort
 		// Retrievability = probability (0-1) of successfully recalling the card right now
 		// Higher retrievability = more likely to remember
+		// Each card uses the scheduler for its tags' settings
 		const now = new Date();
-		const cardsWithR = result.results.map((row: any) => {
-			// Convert DB row to FSRS Card object
-			const card: Card = {
-				state: row.state as State,
-				due: new Date(row.due as string),
-				stability: row.stability as number,
-				difficulty: row.difficulty as number,
-				elapsed_days: row.elapsed_days as number,
-				scheduled_days: row.scheduled_days as number,
-				learning_steps: row.learning_steps as number,
-				reps: row.reps as number,
-				lapses: row.lapses as number,
-				last_review: row.last_review ? new Date(row.last_review as string) : undefined,
-			};
+		const cardsWithR = await Promise.all(
+			result.results.map(async (row: any) => {
+				const scheduler = await this.getScheduler(row.tags ? (row.tags as string).split(",") : []);
 
-			// Get retrievability from FSRS (probability of recall)
-			const retrievability = this.scheduler.get_retrievability(card, now, false);
+				// Get retrievability from FSRS (probability of recall)
+				const retrievability = scheduler.get_retrievability(this.toFsrsCard(row), now, false);
 
-			return {
-				row,
-				retrievability,
-			};
-		});
+				return {
+					row,
+					retrievability,
+				};
+			}),
+		);
 
-		// Sort by retrievability DESCENDING (highest first) - FSRS recommendation for backlogs
+		// Which cards make today's cut is decided by retrievability DESCENDING (highest first),
+		// the FSRS recommendation for backlogs, whatever order they're then presented in
 		cardsWithR.sort((a, b) => b.retrievability - a.retrievability);
 
-		// Apply limit after sorting
-		const limitedCards = limit ? cardsWithR.slice(0, limit) : cardsWithR;
+		// Enforce the daily limits. Cards in learning steps are always shown - they're mid-way
+		// through being learned and would otherwise fall behind their steps
+		const daily = await this.getDailyLimits();
+		let newRemaining = daily.new_remaining;
+		let reviewsRemaining = daily.reviews_remaining;
+		const allowedCards = cardsWithR.filter(({ row }) => {
+			if (row.state === State.Learning || row.state === State.Relearning) return true;
+			if (reviewsRemaining <= 0) return false;
+			if (row.state === State.New) {
+				if (newRemaining <= 0) return false;
+				newRemaining--;
+			}
+			reviewsRemaining--;
+			return true;
+		});
+
+		// Order for presentation. Without a seed, random order stays the same for the whole study day
+		const { settings } = await this.getSettings();
+		const clock = await this.getClock();
+		const seed = options.seed ?? Number(studyDay(now, clock).replace(/-/g, ""));
+		const ordered = orderQueue(
+			allowedCards.map(({ row, retrievability }) => ({
+				item: row,
+				state: row.state as State,
+				retrievability,
+				due: new Date(row.due),
+				scheduled_days: row.scheduled_days,
+				difficulty: row.difficulty,
+				tags: row.tags ? (row.tags as string).split(",") : [],
+			})),
+			options.order ?? "retrievability_desc",
+			settings.new_card_position,
+			seed,
+			now,
+		);
+
+		// Apply limit after ordering
+		const limitedCards = limit ? ordered.slice(0, limit) : ordered;
 
 		// Format and return
-		return limitedCards.map((item) => this.formatCardRow(item.row));
+		return limitedCards.map((row) => this.formatCardRow(row, clock));
+	}
+
+	/**
+	 * How many new cards and reviews are left for today under the daily limits
+	 * Learning and relearning steps are always served (see getDueCards), so they don't use up
+	 * the review limit; a new card's first review does, as it does in getDueCards.
+	 */
+	async getDailyLimits(): Promise<DailyLimits> {
+		const { settings } = await this.getSettings();
+		const clock = await this.getClock();
+		const dayStart = startOfStudyDay(studyDay(new Date(), clock), clock);
+
+		const result = await this.db
+			.prepare(
+				`SELECT COUNT(CASE WHEN state IN (?, ?) THEN 1 END) as reviews,
+                COUNT(DISTINCT CASE WHEN state = ? THEN card_id END) as new_cards
+         FROM review_history
+         WHERE user_id = ? AND created_at >= ? AND ${CARD_ID_NOT_TRASHED}`,
+			)
+			.bind(State.New, State.Review, State.New, this.userId, toSqliteTimestamp(dayStart), this.userId)
+			.first();
+
+		const newToday = (result?.new_cards as number) || 0;
+		const reviewsToday = (result?.reviews as number) || 0;
+		return {
+			new_cards_per_day: settings.new_cards_per_day,
+			new_today: newToday,
+			new_remaining: Math.max(settings.new_cards_per_day - newToday, 0),
+			reviews_per_day: settings.reviews_per_day,
+			reviews_today: reviewsToday,
+			reviews_remaining: Math.max(settings.reviews_per_day - reviewsToday, 0),
+		};
+	}
+
+	/**
+	 * Get all cards, optionally filtered by tags, one page at a time
+	 */
+	async getAllCards(tags: string[] = [], page: PageOptions = {}): Promise<CardPage> {
+		let where = `c.user_id = ? AND ${CARD_NOT_TRASHED}`;
+		const params: any[] = [this.userId];
+
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			where += filter.sql;
+			params.push(...filter.params);
+		}
+
+		return this.pageCards("cards c JOIN reviews r ON c.id = r.card_id", where, params, page);
 	}
 
 	/**
-	 * Get all cards
+	 * Run a card listing query one page at a time, newest first (ties broken by ID)
+	 * The cursor marks the last card of the previous page rather than an offset, so pages
+	 * don't shift when cards are added or deleted in between
 	 */
-	async getAllCards(tags: string[] = []): Promise<CardData[]> {
+	private async pageCards(from: string, where: string, params: any[], page: PageOptions): Promise<CardPage> {
+		let pageWhere = where;
+		const pageParams = [...params];
+		if (page.cursor !== undefined) {
+			const after = decodeCursor(page.cursor);
+			pageWhere += " AND (c.created_at < ? OR (c.created_at = ? AND c.id < ?))";
+			pageParams.push(after.created_at, after.created_at, after.id);
+		}
+
+		// Fetch one extra row to tell whether there's another page
 		let sql = `
-      SELECT c.id, c.instructions, r.due,
+      SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.created_at, r.due,
              GROUP_CONCAT(t.tag) as tags
-      FROM cards c
-      JOIN reviews r ON c.id = r.card_id
+      FROM ${from}
       LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
-      WHERE c.user_id = ?
+      WHERE ${pageWhere}
+      GROUP BY c.id
+      ORDER BY c.created_at DESC, c.id DESC
     `;
-		const params: any[] = [this.userId, this.userId];
-
-		if (tags.length > 0) {
-			const placeholders = tags.map(() => "?").join(",");
-			sql += ` AND c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND tag IN (${placeholders}))`;
-			params.push(this.userId, ...tags);
+		if (page.limit !== undefined) {
+			sql += " LIMIT ?";
+			pageParams.push(page.limit + 1);
 		}
 
-		sql += " GROUP BY c.id ORDER BY c.created_at DESC";
+		const [[rowsResult, countResult], clock] = await Promise.all([
+			this.db.batch([
+				this.db.prepare(sql).bind(this.userId, ...pageParams),
+				this.db.prepare(`SELECT COUNT(*) as count FROM ${from} WHERE ${where}`).bind(...params),
+			]),
+			this.getClock(),
+		]);
 
-		const result = await this.db.prepare(sql).bind(...params).all();
-		return result.results.map((row) => this.formatCardRow(row));
+		const rows = rowsResult.results as any[];
+		const hasMore = page.limit !== undefined && rows.length > page.limit;
+		const pageRows = hasMore ? rows.slice(0, page.limit) : rows;
+		const last = pageRows[pageRows.length - 1];
+
+		return {
+			cards: pageRows.map((row) => this.formatCardRow(row, clock)),
+			total: ((countResult.results[0] as any)?.count as number) || 0,
+			next_cursor: hasMore ? encodeCursor(last.created_at, last.id) : null,
+		};
 	}
 
 	/**
@@ -280,13 +928,16 @@ export class SpacedRepetition {
 		const successful: BatchReviewSuccess[] = [];
 		const failed: BatchReviewFailure[] = [];
 
-		for (const { card_id, rating } of reviews) {
+		for (const { card_id, rating, ...transcript } of reviews) {
 			try {
-				const result = await this.submitReview(card_id, rating);
+				const result = await this.submitReview(card_id, rating, transcript);
 				successful.push({
 					card_id,
 					next_review: result.next_review,
+					days_until: result.days_until,
 					interval: result.interval,
+					leech: result.leech,
+					buried_siblings: result.buried_siblings,
 				});
 			} catch (error) {
 				failed.push({
@@ -308,10 +959,10 @@ export class SpacedRepetition {
 
 		for (const search of searches) {
 			try {
-				const cards = await this.searchCards(search.query, search.tags);
+				const page = await this.searchCards(search.query, search.tags, { limit: search.limit });
 				successful.push({
 					query: search.query,
-					cards,
+					...page,
 				});
 			} catch (error) {
 				failed.push({
@@ -327,13 +978,15 @@ export class SpacedRepetition {
 	/**
 	 * Submit a review with FSRS rating (1-4: Again, Hard, Good, Easy)
 	 */
-	async submitReview(cardId: number, rating: Grade): Promise<ReviewResult> {
+	async submitReview(cardId: number, rating: Grade, transcript: ReviewTranscript = {}): Promise<ReviewResult> {
 		// Get current card state from database
 		const review = await this.db
 			.prepare(
-				`SELECT state, due, stability, difficulty, elapsed_days, scheduled_days,
-         learning_steps, reps, lapses, last_review
-         FROM reviews WHERE card_id = ? AND user_id = ?`,
+				`SELECT r.state, r.due, r.stability, r.difficulty, r.elapsed_days, r.scheduled_days,
+         r.learning_steps, r.reps, r.lapses, r.last_review, c.suspended, c.group_id
+         FROM reviews r
+         JOIN cards c ON c.id = r.card_id
+         WHERE r.card_id = ? AND r.user_id = ? AND ${CARD_NOT_TRASHED}`,
 			)
 			.bind(cardId, this.userId)
 			.first();
@@ -342,28 +995,10 @@ export class SpacedRepetition {
 			throw new Error(`Card ${cardId} not found`);
 		}
 
-		// Save current state to review_history BEFORE updating
-		await this.db
-			.prepare(
-				`INSERT INTO review_history (card_id, user_id, state, due, stability, difficulty,
-         elapsed_days, scheduled_days, learning_steps, reps, lapses, last_review)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-			)
-			.bind(
-				cardId,
-				this.userId,
-				review.state,
-				review.due,
-				review.stability,
-				review.difficulty,
-				review.elapsed_days,
-				review.scheduled_days,
-				review.learning_steps,
-				review.reps,
-				review.lapses,
-				review.last_review,
-			)
-			.run();
+		const now = new Date();
+		const elapsedDays = review.last_review
+			? (now.getTime() - new Date(review.last_review as string).getTime()) / (1000 * 60 * 60 * 24)
+			: null;
 
 		// Convert database row to FSRS Card object
 		const card: Card = {
@@ -379,9 +1014,10 @@ export class SpacedRepetition {
 			last_review: review.last_review ? new Date(review.last_review as string) : undefined,
 		};
 
-		// Schedule the card using FSRS
-		const now = new Date();
-		const recordLogItem: RecordLogItem = this.scheduler.next(card, now, rating);
+		// Schedule the card using FSRS with the settings for its tags
+		const tags = await this.getCardTags(cardId);
+		const scheduler = await this.getScheduler(tags);
+		const recordLogItem: RecordLogItem = scheduler.next(card, now, rating);
 		const updatedCard = recordLogItem.card;
 
 		// Calculate interval in days
@@ -390,88 +1026,460 @@ export class SpacedRepetition {
 			(nextDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24),
 		);
 
-		// Update reviews table with new FSRS state
-		await this.db
-			.prepare(
-				`UPDATE reviews
+		// A lapse can make the card a leech
+		const { leech_threshold, leech_action, bury_siblings } = (await this.getSettings()).settings;
+		const leech = updatedCard.lapses > card.lapses && isLeech(updatedCard.lapses, leech_threshold);
+		const leechTagged = leech && !tags.includes(LEECH_TAG);
+		const leechSuspended = leech && leech_action === "suspend" && review.suspended === 0;
+
+		// Siblings practise the same concept, so keep them out of the rest of today's session.
+		// Cards in learning steps are left alone - burying them would hold up their steps
+		const clock = await this.getClock();
+		const siblingsResult =
+			bury_siblings && review.group_id != null
+				? await this.db
+						.prepare(
+							`SELECT c.id FROM cards c
+               JOIN reviews r ON c.id = r.card_id
+               WHERE c.user_id = ? AND c.group_id = ? AND c.id != ? AND ${CARD_NOT_TRASHED} AND ${CARD_ACTIVE}
+                 AND r.state IN (?, ?)`,
+						)
+						.bind(this.userId, review.group_id, cardId, State.New, State.Review)
+						.all()
+				: null;
+		const siblings = (siblingsResult?.results ?? []).map((row: any) => row.id as number);
+
+		// Save the state before the review, the rating, the transcript and what else the review
+		// changes to review_history, so undoReview can put it all back
+		const statements: D1PreparedStatement[] = [
+			this.db
+				.prepare(
+					`INSERT INTO review_history (card_id, user_id, state, due, stability, difficulty,
+           elapsed_days, scheduled_days, learning_steps, reps, lapses, last_review,
+           rating, reviewed_at, review_elapsed_days, question, user_answer, feedback,
+           leech_tagged, leech_suspended, buried_siblings)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					cardId,
+					this.userId,
+					review.state,
+					review.due,
+					review.stability,
+					review.difficulty,
+					review.elapsed_days,
+					review.scheduled_days,
+					review.learning_steps,
+					review.reps,
+					review.lapses,
+					review.last_review,
+					rating,
+					now.toISOString(),
+					elapsedDays,
+					transcript.question?.trim() || null,
+					transcript.user_answer?.trim() || null,
+					transcript.feedback?.trim() || null,
+					leechTagged ? 1 : 0,
+					leechSuspended ? 1 : 0,
+					siblings.length > 0 ? JSON.stringify(siblings) : null,
+				),
+			// Update reviews table with new FSRS state
+			this.db
+				.prepare(
+					`UPDATE reviews
          SET state = ?, due = ?, stability = ?, difficulty = ?,
              elapsed_days = ?, scheduled_days = ?, learning_steps = ?,
              reps = ?, lapses = ?, last_review = ?
          WHERE card_id = ? AND user_id = ?`,
-			)
-			.bind(
-				updatedCard.state,
-				updatedCard.due.toISOString(),
-				updatedCard.stability,
-				updatedCard.difficulty,
-				updatedCard.elapsed_days,
-				updatedCard.scheduled_days,
-				updatedCard.learning_steps,
-				updatedCard.reps,
-				updatedCard.lapses,
-				updatedCard.last_review ? updatedCard.last_review.toISOString() : null,
-				cardId,
-				this.userId,
-			)
-			.run();
+				)
+				.bind(
+					updatedCard.state,
+					updatedCard.due.toISOString(),
+					updatedCard.stability,
+					updatedCard.difficulty,
+					updatedCard.elapsed_days,
+					updatedCard.scheduled_days,
+					updatedCard.learning_steps,
+					updatedCard.reps,
+					updatedCard.lapses,
+					updatedCard.last_review ? updatedCard.last_review.toISOString() : null,
+					cardId,
+					this.userId,
+				),
+		];
+
+		if (leechTagged) {
+			statements.push(
+				this.db
+					.prepare("INSERT OR IGNORE INTO tags (card_id, user_id, tag) VALUES (?, ?, ?)")
+					.bind(cardId, this.userId, LEECH_TAG),
+			);
+		}
+		if (leechSuspended) {
+			statements.push(
+				this.db.prepare("UPDATE cards SET suspended = 1 WHERE id = ? AND user_id = ?").bind(cardId, this.userId),
+			);
+		}
+		if (siblings.length > 0) {
+			statements.push(
+				this.db
+					.prepare(`UPDATE cards SET buried_until = ? WHERE user_id = ? AND id IN (${siblings.map(() => "?").join(", ")})`)
+					.bind(startOfNextStudyDay(now, clock).toISOString(), this.userId, ...siblings),
+			);
+		}
+
+		await this.db.batch(statements);
 
+		const nextDay = studyDay(nextDate, clock);
 		return {
-			next_review: nextDate.toISOString().split("T")[0],
+			next_review: nextDay,
+			days_until: daysBetween(studyDay(now, clock), nextDay),
 			interval: interval,
+			lapses: updatedCard.lapses,
+			leech,
+			buried_siblings: siblings.length,
 		};
 	}
 
 	/**
-	 * Undo the last review for a card
+	 * Get leeches: cards tagged as leeches or at/over the lapse threshold, most lapses first,
+	 * with the times each one was forgotten
 	 */
-	async undoReview(cardId: number): Promise<boolean> {
-		// Get the most recent review history entry for this card
+	async getLeeches(tags: string[] = []): Promise<LeechCard[]> {
+		const { leech_threshold } = (await this.getSettings()).settings;
+
+		let sql = `
+      SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.suspended, r.due, r.lapses,
+             GROUP_CONCAT(t.tag) as tags
+      FROM cards c
+      JOIN reviews r ON c.id = r.card_id
+      LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+      WHERE c.user_id = ? AND ${CARD_NOT_TRASHED}
+        AND (r.lapses >= ? OR c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND tag = ?))
+    `;
+		const params: any[] = [this.userId, this.userId, leech_threshold, this.userId, LEECH_TAG];
+
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
+		}
+
+		sql += " GROUP BY c.id ORDER BY r.lapses DESC, c.id";
+
+		const result = await this.db.prepare(sql).bind(...params).all();
+		if (result.results.length === 0) {
+			return [];
+		}
+
+		// A lapse is an Again on a card in the Review state
+		const cardIds = result.results.map((row: any) => row.id as number);
 		const history = await this.db
 			.prepare(
-				`SELECT id, state, due, stability, difficulty, elapsed_days, scheduled_days,
-         learning_steps, reps, lapses, last_review
+				`SELECT card_id, reviewed_at, created_at
          FROM review_history
-         WHERE card_id = ? AND user_id = ?
-         ORDER BY created_at DESC
-         LIMIT 1`,
+         WHERE user_id = ? AND rating = ? AND state = ?
+           AND card_id IN (${cardIds.map(() => "?").join(", ")})
+         ORDER BY card_id, created_at, id`,
 			)
+			.bind(this.userId, Rating.Again, State.Review, ...cardIds)
+			.all();
+
+		const lapseHistory = new Map<number, string[]>();
+		for (const row of history.results as any[]) {
+			const lapsedAt = row.reviewed_at ?? fromSqliteTimestamp(row.created_at).toISOString();
+			lapseHistory.set(row.card_id, [...(lapseHistory.get(row.card_id) ?? []), lapsedAt]);
+		}
+
+		const clock = await this.getClock();
+		return result.results.map((row: any) => ({
+			...this.formatCardRow(row, clock),
+			lapses: row.lapses,
+			suspended: row.suspended === 1,
+			lapse_history: lapseHistory.get(row.id) ?? [],
+		}));
+	}
+
+	/**
+	 * Get the last `limit` question/answer exchanges recorded for a card, oldest first
+	 * Reviews submitted without a transcript are left out.
+	 */
+	async getCardTranscripts(cardId: number, limit: number = 5): Promise<TranscriptEntry[]> {
+		const card = await this.db
+			.prepare("SELECT id FROM cards WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
 			.bind(cardId, this.userId)
 			.first();
 
-		if (!history) {
-			return false; // No history to undo
+		if (!card) {
+			throw new Error(`Card ${cardId} not found`);
 		}
 
-		// Restore the previous state to reviews table
-		await this.db
+		const result = await this.db
 			.prepare(
-				`UPDATE reviews
-         SET state = ?, due = ?, stability = ?, difficulty = ?,
-             elapsed_days = ?, scheduled_days = ?, learning_steps = ?,
-             reps = ?, lapses = ?, last_review = ?
-         WHERE card_id = ? AND user_id = ?`,
-			)
-			.bind(
-				history.state,
-				history.due,
-				history.stability,
-				history.difficulty,
-				history.elapsed_days,
-				history.scheduled_days,
-				history.learning_steps,
-				history.reps,
-				history.lapses,
-				history.last_review,
-				cardId,
-				this.userId,
+				`SELECT id, rating, reviewed_at, created_at, question, user_answer, feedback
+         FROM review_history
+         WHERE card_id = ? AND user_id = ?
+           AND (question IS NOT NULL OR user_answer IS NOT NULL OR feedback IS NOT NULL)
+         ORDER BY created_at DESC, id DESC
+         LIMIT ?`,
 			)
-			.run();
+			.bind(cardId, this.userId, limit)
+			.all();
 
-		// Delete the history entry we just used
-		await this.db
-			.prepare("DELETE FROM review_history WHERE id = ?")
-			.bind(history.id)
-			.run();
+		return (result.results as any[])
+			.map((row) => ({
+				review_id: row.id,
+				reviewed_at: row.reviewed_at ?? fromSqliteTimestamp(row.created_at).toISOString(),
+				rating: row.rating,
+				question: row.question,
+				user_answer: row.user_answer,
+				feedback: row.feedback,
+			}))
+			.reverse();
+	}
+
+	/**
+	 * Get a card's full timeline: creation, every review with the FSRS state it moved the
+	 * card from and to, and every edit with what changed
+	 * Returns null if the card doesn't exist.
+	 */
+	async getCardHistory(cardId: number): Promise<CardHistory | null> {
+		const [cardResult, historyResult, versionsResult] = await this.db.batch([
+			this.db
+				.prepare(
+					`SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.created_at, r.due, r.state,
+                  r.stability, r.difficulty, r.lapses, GROUP_CONCAT(t.tag) as tags
+           FROM cards c
+           JOIN reviews r ON c.id = r.card_id
+           LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+           WHERE c.id = ? AND c.user_id = ? AND ${CARD_NOT_TRASHED}
+           GROUP BY c.id`,
+				)
+				.bind(this.userId, cardId, this.userId),
+			this.db
+				.prepare(
+					`SELECT state, due, stability, difficulty, lapses, rating, reviewed_at, created_at
+           FROM review_history
+           WHERE card_id = ? AND user_id = ?
+           ORDER BY created_at, id`,
+				)
+				.bind(cardId, this.userId),
+			this.db
+				.prepare(
+					`SELECT instructions, reference_answer, rubric, tags, source, created_at
+           FROM card_versions
+           WHERE card_id = ? AND user_id = ?
+           ORDER BY created_at, id`,
+				)
+				.bind(cardId, this.userId),
+		]);
+
+		const row = cardResult.results[0] as any;
+		if (!row) {
+			return null;
+		}
+
+		const events: CardHistoryEvent[] = [{ type: "created", at: fromSqliteTimestamp(row.created_at).toISOString() }];
+
+		// review_history holds the state BEFORE each review, so the state after
+		// review i is snapshot i + 1 (or the current state for the last one)
+		const snapshots = historyResult.results as any[];
+		snapshots.forEach((before, i) => {
+			const after = snapshots[i + 1] ?? row;
+			const at = before.reviewed_at ?? fromSqliteTimestamp(before.created_at).toISOString();
+			events.push({
+				type: "review",
+				at,
+				rating: before.rating,
+				state: { before: State[before.state as State], after: State[after.state as State] },
+				stability: { before: before.stability, after: after.stability },
+				difficulty: { before: before.difficulty, after: after.difficulty },
+				lapses: { before: before.lapses, after: after.lapses },
+				due: new Date(after.due).toISOString(),
+				interval_days: Number(((new Date(after.due).getTime() - new Date(at).getTime()) / (1000 * 60 * 60 * 24)).toFixed(2)),
+			});
+		});
+
+		// Likewise card_versions holds the content BEFORE each edit
+		const current: CardVersion = {
+			instructions: row.instructions,
+			reference_answer: row.reference_answer,
+			rubric: row.rubric,
+			tags: row.tags ? (row.tags as string).split(",") : [],
+		};
+		const versions = (versionsResult.results as any[]).map((version) => ({
+			at: fromSqliteTimestamp(version.created_at).toISOString(),
+			source: version.source as EditSource | null,
+			content: parseVersion(version),
+		}));
+		versions.forEach((version, i) => {
+			const after = versions[i + 1]?.content ?? current;
+			events.push({ type: "edit", at: version.at, source: version.source, changes: diffVersions(version.content, after) });
+		});
+
+		events.sort((a, b) => a.at.localeCompare(b.at));
+
+		return { card: this.formatCardRow(row, await this.getClock()), events };
+	}
+
+	/**
+	 * Every version of a card's content, oldest first, ending with the current one
+	 * Returns null if the card doesn't exist
+	 */
+	async getCardVersions(cardId: number): Promise<CardVersionEntry[] | null> {
+		const [cardResult, versionsResult] = await this.db.batch([
+			this.db
+				.prepare(
+					`SELECT c.instructions, c.reference_answer, c.rubric, c.created_at, GROUP_CONCAT(t.tag) as tags
+           FROM cards c
+           LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+           WHERE c.id = ? AND c.user_id = ? AND ${CARD_NOT_TRASHED}
+           GROUP BY c.id`,
+				)
+				.bind(this.userId, cardId, this.userId),
+			this.db
+				.prepare(
+					`SELECT instructions, reference_answer, rubric, tags, source, created_at
+           FROM card_versions
+           WHERE card_id = ? AND user_id = ?
+           ORDER BY created_at, id`,
+				)
+				.bind(cardId, this.userId),
+		]);
+
+		const row = cardResult.results[0] as any;
+		if (!row) {
+			return null;
+		}
+
+		// Each card_versions row is the content BEFORE an edit: version i + 1 is what that edit produced
+		const edits = versionsResult.results as any[];
+		const contents: CardVersion[] = [
+			...edits.map(parseVersion),
+			{
+				instructions: row.instructions,
+				reference_answer: row.reference_answer,
+				rubric: row.rubric,
+				tags: row.tags ? (row.tags as string).split(",") : [],
+			},
+		];
+
+		return contents.map((content, i) => ({
+			version: i + 1,
+			content,
+			since: fromSqliteTimestamp(i === 0 ? row.created_at : edits[i - 1].created_at).toISOString(),
+			source: i === 0 ? null : (edits[i - 1].source as EditSource | null),
+			changes: i === 0 ? {} : diffVersions(contents[i - 1], content),
+			current: i === contents.length - 1,
+		}));
+	}
+
+	/**
+	 * Restore a card's content to an earlier version (by default the one before the last edit)
+	 * The revert is itself recorded as an edit, so it can be reverted too.
+	 * Returns what changed, or null if the card doesn't exist
+	 */
+	async revertCard(cardId: number, version?: number): Promise<{ version: number; changes: CardChanges } | null> {
+		const versions = await this.getCardVersions(cardId);
+		if (!versions) {
+			return null;
+		}
+		if (versions.length === 1) {
+			throw new Error(`Card ${cardId} has never been edited`);
+		}
+
+		const target = version ?? versions.length - 1;
+		if (!Number.isInteger(target) || target < 1 || target > versions.length) {
+			throw new Error(`Card ${cardId} has no version ${target} (versions 1-${versions.length})`);
+		}
+		if (target === versions.length) {
+			throw new Error(`Version ${target} is already the current version of card ${cardId}`);
+		}
+
+		const { content } = versions[target - 1];
+		const changes = diffVersions(versions[versions.length - 1].content, content);
+		if (Object.keys(changes).length === 0) {
+			throw new Error(`Version ${target} has the same content as the current version of card ${cardId}`);
+		}
+
+		await this.editCard(cardId, content.instructions, content.tags, {
+			reference_answer: content.reference_answer ?? "",
+			rubric: content.rubric ?? "",
+		});
+
+		return { version: target, changes };
+	}
+
+	/**
+	 * Undo the last review for a card: its FSRS state, and the leech tag, leech suspension
+	 * and sibling burying it caused
+	 */
+	async undoReview(cardId: number): Promise<boolean> {
+		// Get the most recent review history entry for this card
+		const history = await this.db
+			.prepare(
+				`SELECT id, state, due, stability, difficulty, elapsed_days, scheduled_days,
+         learning_steps, reps, lapses, last_review, leech_tagged, leech_suspended, buried_siblings
+         FROM review_history
+         WHERE card_id = ? AND user_id = ? AND ${CARD_ID_NOT_TRASHED}
+         ORDER BY created_at DESC
+         LIMIT 1`,
+			)
+			.bind(cardId, this.userId, this.userId)
+			.first();
+
+		if (!history) {
+			return false; // No history to undo
+		}
+
+		// Restore the previous state to reviews table and delete the history entry we just used
+		const statements: D1PreparedStatement[] = [
+			this.db
+				.prepare(
+					`UPDATE reviews
+           SET state = ?, due = ?, stability = ?, difficulty = ?,
+               elapsed_days = ?, scheduled_days = ?, learning_steps = ?,
+               reps = ?, lapses = ?, last_review = ?
+           WHERE card_id = ? AND user_id = ?`,
+				)
+				.bind(
+					history.state,
+					history.due,
+					history.stability,
+					history.difficulty,
+					history.elapsed_days,
+					history.scheduled_days,
+					history.learning_steps,
+					history.reps,
+					history.lapses,
+					history.last_review,
+					cardId,
+					this.userId,
+				),
+			this.db.prepare("DELETE FROM review_history WHERE id = ?").bind(history.id),
+		];
+
+		// Take back what else the review did
+		if (history.leech_tagged) {
+			statements.push(
+				this.db.prepare("DELETE FROM tags WHERE card_id = ? AND user_id = ? AND tag = ?").bind(cardId, this.userId, LEECH_TAG),
+			);
+		}
+		if (history.leech_suspended) {
+			statements.push(
+				this.db.prepare("UPDATE cards SET suspended = 0 WHERE id = ? AND user_id = ?").bind(cardId, this.userId),
+			);
+		}
+		const siblings: number[] = history.buried_siblings ? JSON.parse(history.buried_siblings as string) : [];
+		if (siblings.length > 0) {
+			statements.push(
+				this.db
+					.prepare(`UPDATE cards SET buried_until = NULL WHERE user_id = ? AND id IN (${siblings.map(() => "?").join(", ")})`)
+					.bind(this.userId, ...siblings),
+			);
+		}
+
+		await this.db.batch(statements);
 
 		return true;
 	}
@@ -506,123 +1514,2001 @@ export class SpacedRepetition {
 	}
 
 	/**
-	 * Delete a card
+	 * Move a card to the trash. It keeps its tags, FSRS state and review history and can be
+	 * restored until trash_retention_days passes, after which it's deleted for good
+	 */
+	async deleteCard(cardId: number): Promise<boolean> {
+		const result = await this.db
+			.prepare("UPDATE cards SET deleted_at = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(new Date().toISOString(), cardId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Cards in the trash, most recently deleted first
+	 */
+	async listTrash(): Promise<TrashedCard[]> {
+		await this.purgeTrash();
+		const [{ settings }, clock, result] = await Promise.all([
+			this.getSettings(),
+			this.getClock(),
+			this.db
+				.prepare(
+					`SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.deleted_at, r.due, GROUP_CONCAT(t.tag) as tags
+           FROM cards c
+           JOIN reviews r ON c.id = r.card_id
+           LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+           WHERE c.user_id = ? AND c.deleted_at IS NOT NULL
+           GROUP BY c.id
+           ORDER BY c.deleted_at DESC, c.id DESC`,
+				)
+				.bind(this.userId, this.userId)
+				.all(),
+		]);
+
+		const retentionMs = settings.trash_retention_days * 24 * 60 * 60 * 1000;
+		return (result.results as any[]).map((row) => ({
+			...this.formatCardRow(row, clock),
+			deleted_at: row.deleted_at,
+			purge_at: new Date(new Date(row.deleted_at).getTime() + retentionMs).toISOString(),
+		}));
+	}
+
+	/**
+	 * Take a card back out of the trash, with its schedule, history, siblings and prerequisites
+	 * A card whose instructions and reference answer have been added again since is refused
+	 * unless onDuplicate is "allow", as is one whose prerequisite links would now form a cycle.
+	 */
+	async restoreCard(cardId: number, onDuplicate: Exclude<DuplicateAction, "merge"> = "reject"): Promise<boolean> {
+		// Cards past trash_retention_days are as good as gone, even before purgeTrash runs
+		const card = await this.db
+			.prepare(
+				"SELECT instructions, reference_answer FROM cards WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL AND datetime(deleted_at) >= datetime(?)",
+			)
+			.bind(cardId, this.userId, await this.trashCutoff())
+			.first();
+		if (!card) {
+			return false;
+		}
+
+		if (onDuplicate === "reject") {
+			const existingId = await this.findCardByInstructions(card.instructions as string, (card.reference_answer as string | null) ?? "");
+			if (existingId !== null) {
+				throw new Error(`Duplicate of card ${existingId} - delete or edit that card first, or restore with on_duplicate 'allow'`);
+			}
+		}
+
+		// Links to live cards come back with the card; they may close a cycle made while it was away
+		const [edges, links] = await Promise.all([
+			this.getPrerequisiteEdges(),
+			this.db
+				.prepare(
+					`SELECT p.card_id, p.prerequisite_id
+           FROM card_prerequisites p
+           JOIN cards c ON c.id = CASE WHEN p.card_id = ? THEN p.prerequisite_id ELSE p.card_id END
+           WHERE p.user_id = ? AND (p.card_id = ? OR p.prerequisite_id = ?) AND c.deleted_at IS NULL`,
+				)
+				.bind(cardId, this.userId, cardId, cardId)
+				.all(),
+		]);
+		for (const link of links.results as any[]) {
+			const cycle = findPrerequisitePath(edges, link.prerequisite_id, link.card_id);
+			if (cycle) {
+				throw new Error(
+					`Restoring would create a cycle: ${[link.card_id, ...cycle].join(" -> ")} - remove one of these prerequisites first`,
+				);
+			}
+			edges.set(link.card_id, [...(edges.get(link.card_id) ?? []), link.prerequisite_id]);
+		}
+
+		const result = await this.db
+			.prepare("UPDATE cards SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL")
+			.bind(cardId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Restore multiple cards from the trash in batch
+	 */
+	async restoreCardsInBatch(
+		cardIds: number[],
+		onDuplicate: Exclude<DuplicateAction, "merge"> = "reject",
+	): Promise<BatchOperationResult<{ card_id: number }>> {
+		const successful: Array<{ card_id: number }> = [];
+		const failed: Array<{ card_id: number; error: string }> = [];
+
+		for (const cardId of cardIds) {
+			try {
+				const success = await this.restoreCard(cardId, onDuplicate);
+				if (success) {
+					successful.push({ card_id: cardId });
+				} else {
+					failed.push({
+						card_id: cardId,
+						error: 'Card not in trash',
+					});
+				}
+			} catch (error) {
+				failed.push({
+					card_id: cardId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		return { successful, failed };
+	}
+
+	/**
+	 * Permanently delete cards in the trash (all of them, or only the given ones)
+	 * The cascade removes their reviews, tags and history. Returns how many were deleted
+	 */
+	async emptyTrash(cardIds?: number[]): Promise<number> {
+		await this.purgeTrash();
+		let sql = "DELETE FROM cards WHERE user_id = ? AND deleted_at IS NOT NULL";
+		if (cardIds !== undefined) {
+			if (cardIds.length === 0) return 0;
+			sql += ` AND id IN (${cardIds.map(() => "?").join(", ")})`;
+		}
+
+		const result = await this.db
+			.prepare(sql)
+			.bind(this.userId, ...(cardIds ?? []))
+			.run();
+		return result.meta.changes;
+	}
+
+	/**
+	 * Permanently delete cards that have been in the trash longer than trash_retention_days
+	 */
+	private async purgeTrash(): Promise<void> {
+		await this.db
+			.prepare("DELETE FROM cards WHERE user_id = ? AND deleted_at IS NOT NULL AND datetime(deleted_at) < datetime(?)")
+			.bind(this.userId, await this.trashCutoff())
+			.run();
+	}
+
+	/**
+	 * Cards deleted before this time have been in the trash longer than trash_retention_days
+	 */
+	private async trashCutoff(): Promise<string> {
+		const { trash_retention_days } = (await this.getSettings()).settings;
+		return new Date(Date.now() - trash_retention_days * 24 * 60 * 60 * 1000).toISOString();
+	}
+
+	/**
+	 * Move multiple cards to the trash in batch
+	 */
+	async deleteCardsInBatch(cardIds: number[]): Promise<BatchOperationResult<{ card_id: number }>> {
+		const successful: Array<{ card_id: number }> = [];
+		const failed: Array<{ card_id: number; error: string }> = [];
+
+		for (const cardId of cardIds) {
+			try {
+				const success = await this.deleteCard(cardId);
+				if (success) {
+					successful.push({ card_id: cardId });
+				} else {
+					failed.push({
+						card_id: cardId,
+						error: 'Card not found',
+					});
+				}
+			} catch (error) {
+				failed.push({
+					card_id: cardId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		return { successful, failed };
+	}
+
+	/**
+	 * Suspend a card: it stays out of due lists until unsuspended
+	 */
+	async suspendCard(cardId: number): Promise<boolean> {
+		const result = await this.db
+			.prepare("UPDATE cards SET suspended = 1 WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(cardId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Bury a card: it stays out of due lists until the next study day starts
+	 */
+	async buryCard(cardId: number): Promise<boolean> {
+		const buriedUntil = startOfNextStudyDay(new Date(), await this.getClock());
+		const result = await this.db
+			.prepare("UPDATE cards SET buried_until = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(buriedUntil.toISOString(), cardId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Bring back a suspended or buried card
+	 */
+	async unsuspendCard(cardId: number): Promise<boolean> {
+		const result = await this.db
+			.prepare("UPDATE cards SET suspended = 0, buried_until = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(cardId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Suspend multiple cards in batch
+	 */
+	async suspendCardsInBatch(cardIds: number[]): Promise<BatchOperationResult<{ card_id: number }>> {
+		return this.updateCardsInBatch(cardIds, (cardId) => this.suspendCard(cardId));
+	}
+
+	/**
+	 * Bury multiple cards in batch
+	 */
+	async buryCardsInBatch(cardIds: number[]): Promise<BatchOperationResult<{ card_id: number }>> {
+		return this.updateCardsInBatch(cardIds, (cardId) => this.buryCard(cardId));
+	}
+
+	/**
+	 * Unsuspend/unbury multiple cards in batch
+	 */
+	async unsuspendCardsInBatch(cardIds: number[]): Promise<BatchOperationResult<{ card_id: number }>> {
+		return this.updateCardsInBatch(cardIds, (cardId) => this.unsuspendCard(cardId));
+	}
+
+	/**
+	 * Make cards siblings of each other. They join the first card's group (created if it has none),
+	 * leaving any group they were in before. Returns the IDs of every card in the group
+	 */
+	async linkCards(cardIds: number[]): Promise<number[]> {
+		const ids = [...new Set(cardIds)];
+		if (ids.length < 2) {
+			throw new Error("Need at least two different cards to link");
+		}
+
+		const existing = await this.db
+			.prepare(`SELECT id FROM cards WHERE user_id = ? AND deleted_at IS NULL AND id IN (${ids.map(() => "?").join(", ")})`)
+			.bind(this.userId, ...ids)
+			.all();
+		const found = new Set(existing.results.map((row: any) => row.id as number));
+		const missing = ids.filter((id) => !found.has(id));
+		if (missing.length > 0) {
+			throw new Error(`Card(s) not found: ${missing.join(", ")}`);
+		}
+
+		const groupId = await this.getOrCreateGroup(ids[0]);
+		await this.db.batch(
+			ids.map((id) => this.db.prepare("UPDATE cards SET group_id = ? WHERE id = ? AND user_id = ?").bind(groupId, id, this.userId)),
+		);
+
+		return this.getGroupCards(groupId);
+	}
+
+	/**
+	 * Take a card out of its sibling group
+	 */
+	async unlinkCard(cardId: number): Promise<boolean> {
+		const result = await this.db
+			.prepare("UPDATE cards SET group_id = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(cardId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Unlink multiple cards in batch
+	 */
+	async unlinkCardsInBatch(cardIds: number[]): Promise<BatchOperationResult<{ card_id: number }>> {
+		return this.updateCardsInBatch(cardIds, (cardId) => this.unlinkCard(cardId));
+	}
+
+	/**
+	 * The card's sibling group, creating one with just this card if it isn't in one yet
+	 */
+	private async getOrCreateGroup(cardId: number): Promise<number> {
+		const card = await this.db
+			.prepare("SELECT group_id FROM cards WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(cardId, this.userId)
+			.first();
+		if (!card) {
+			throw new Error(`Card ${cardId} not found`);
+		}
+		if (card.group_id != null) return card.group_id as number;
+
+		const groupId = await this.createGroup();
+		await this.db.prepare("UPDATE cards SET group_id = ? WHERE id = ? AND user_id = ?").bind(groupId, cardId, this.userId).run();
+		return groupId;
+	}
+
+	private async createGroup(): Promise<number> {
+		const result = await this.db.prepare("INSERT INTO card_groups (user_id) VALUES (?)").bind(this.userId).run();
+		return result.meta.last_row_id as number;
+	}
+
+	private async getGroupCards(groupId: number): Promise<number[]> {
+		const result = await this.db
+			.prepare("SELECT id FROM cards WHERE user_id = ? AND group_id = ? AND deleted_at IS NULL ORDER BY id")
+			.bind(this.userId, groupId)
+			.all();
+		return result.results.map((row: any) => row.id as number);
+	}
+
+	/**
+	 * Declare that a card depends on another: while the prerequisite isn't learned, the card
+	 * (if new) stays out of due lists. Returns false if the link already existed
+	 */
+	async addPrerequisite(cardId: number, prerequisiteId: number): Promise<boolean> {
+		if (cardId === prerequisiteId) {
+			throw new Error("A card can't be its own prerequisite");
+		}
+
+		const existing = await this.db
+			.prepare("SELECT id FROM cards WHERE user_id = ? AND deleted_at IS NULL AND id IN (?, ?)")
+			.bind(this.userId, cardId, prerequisiteId)
+			.all();
+		for (const id of [cardId, prerequisiteId]) {
+			if (!existing.results.some((row: any) => row.id === id)) {
+				throw new Error(`Card ${id} not found`);
+			}
+		}
+
+		// The new link closes a cycle if the card is already (indirectly) a prerequisite of its prerequisite
+		const cycle = findPrerequisitePath(await this.getPrerequisiteEdges(), prerequisiteId, cardId);
+		if (cycle) {
+			throw new Error(`Would create a cycle: ${[cardId, ...cycle].join(" -> ")} (each card needs the next one first)`);
+		}
+
+		const result = await this.db
+			.prepare("INSERT OR IGNORE INTO card_prerequisites (card_id, prerequisite_id, user_id) VALUES (?, ?, ?)")
+			.bind(cardId, prerequisiteId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * Remove a prerequisite link. Returns false if there was no such link
+	 */
+	async removePrerequisite(cardId: number, prerequisiteId: number): Promise<boolean> {
+		const result = await this.db
+			.prepare("DELETE FROM card_prerequisites WHERE card_id = ? AND prerequisite_id = ? AND user_id = ?")
+			.bind(cardId, prerequisiteId, this.userId)
+			.run();
+
+		return result.meta.changes > 0;
+	}
+
+	/**
+	 * The prerequisite graph in learning order (prerequisites before the cards that need them)
+	 * Limited to one card and everything it depends on, or to cards with the given tags and
+	 * everything they depend on. Cards without prerequisite links are left out
+	 */
+	async getLearningPath(cardId?: number, tags: string[] = []): Promise<LearningPathStep[]> {
+		const [edges, { settings }, clock, result] = await Promise.all([
+			this.getPrerequisiteEdges(),
+			this.getSettings(),
+			this.getClock(),
+			this.db
+				.prepare(
+					`SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.suspended, r.due, r.state, r.stability,
+                  GROUP_CONCAT(t.tag) as tags
+           FROM cards c
+           JOIN reviews r ON c.id = r.card_id
+           LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+           WHERE c.user_id = ? AND ${CARD_NOT_TRASHED} AND c.id IN (
+             SELECT card_id FROM card_prerequisites WHERE user_id = ?
+             UNION SELECT prerequisite_id FROM card_prerequisites WHERE user_id = ?)
+           GROUP BY c.id`,
+				)
+				.bind(this.userId, this.userId, this.userId, this.userId)
+				.all(),
+		]);
+		const rows = new Map(result.results.map((row: any) => [row.id as number, row]));
+
+		// Pick the starting cards, then pull in everything they depend on
+		let start: number[];
+		if (cardId !== undefined) {
+			start = [cardId];
+		} else if (tags.length > 0) {
+			start = [...rows.values()]
+				.filter((row) => (row.tags ? (row.tags as string).split(",") : []).some((tag) => deckPaths(tag).some((path) => tags.includes(path))))
+				.map((row) => row.id as number);
+		} else {
+			start = [...rows.keys()];
+		}
+		const included = new Set<number>();
+		const pending = [...start];
+		while (pending.length > 0) {
+			const id = pending.pop()!;
+			if (included.has(id) || !rows.has(id)) continue;
+			included.add(id);
+			pending.push(...(edges.get(id) ?? []));
+		}
+
+		// Topological order (Kahn's algorithm), lowest ID first among cards that are ready
+		const remaining = new Map([...included].map((id) => [id, (edges.get(id) ?? []).filter((p) => included.has(p)).length]));
+		const ordered: number[] = [];
+		while (remaining.size > 0) {
+			const ready = [...remaining].filter(([, count]) => count === 0).map(([id]) => id);
+			if (ready.length === 0) break; // Only possible with a cycle, which addPrerequisite refuses
+			const next = Math.min(...ready);
+			remaining.delete(next);
+			ordered.push(next);
+			for (const [id, count] of remaining) {
+				if (edges.get(id)?.includes(next)) remaining.set(id, count - 1);
+			}
+		}
+
+		const isLearned = (row: any) => row.state !== State.New && row.stability >= settings.prerequisite_stability;
+		return ordered.map((id) => {
+			const row = rows.get(id)!;
+			const prerequisites = [...(edges.get(id) ?? [])].sort((a, b) => a - b);
+			return {
+				...this.formatCardRow(row, clock),
+				state: row.state === State.New ? "new" : isLearned(row) ? "learned" : "learning",
+				stability: Number((row.stability as number).toFixed(1)),
+				suspended: row.suspended === 1,
+				prerequisites,
+				blocked_by: prerequisites.filter((p) => !rows.has(p) || !isLearned(rows.get(p))),
+			};
+		});
+	}
+
+	/**
+	 * Each card's prerequisites, for walking the graph in code
+	 * Links to or from trashed cards are left out until the card is restored
+	 */
+	private async getPrerequisiteEdges(): Promise<Map<number, number[]>> {
+		const result = await this.db
+			.prepare(
+				`SELECT p.card_id, p.prerequisite_id
+         FROM card_prerequisites p
+         JOIN cards c ON c.id = p.card_id
+         JOIN cards pc ON pc.id = p.prerequisite_id
+         WHERE p.user_id = ? AND c.deleted_at IS NULL AND pc.deleted_at IS NULL`,
+			)
+			.bind(this.userId)
+			.all();
+
+		const edges = new Map<number, number[]>();
+		for (const row of result.results as any[]) {
+			edges.set(row.card_id, [...(edges.get(row.card_id) ?? []), row.prerequisite_id]);
+		}
+		return edges;
+	}
+
+	/**
+	 * Count suspended, buried and blocked cards (optionally only those that would otherwise be due)
+	 */
+	async countHiddenCards(tags: string[] = [], dueOnly: boolean = false): Promise<HiddenCounts> {
+		const blocked = await this.blockedFilter();
+		let sql = `
+      SELECT SUM(CASE WHEN c.suspended = 1 THEN 1 ELSE 0 END) as suspended,
+             SUM(CASE WHEN c.suspended = 0 AND ${CARD_BURIED} THEN 1 ELSE 0 END) as buried,
+             SUM(CASE WHEN ${CARD_ACTIVE} AND ${blocked.sql} THEN 1 ELSE 0 END) as blocked
+      FROM cards c
+      JOIN reviews r ON c.id = r.card_id
+      WHERE c.user_id = ? AND ${CARD_NOT_TRASHED}
+    `;
+		const params: any[] = [...blocked.params, this.userId];
+
+		if (dueOnly) {
+			const due = await this.dueFilter(new Date(), true);
+			sql += ` AND ${due.sql}`;
+			params.push(...due.params);
+		}
+
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
+		}
+
+		const result = await this.db.prepare(sql).bind(...params).first();
+		return {
+			suspended: (result?.suspended as number) || 0,
+			buried: (result?.buried as number) || 0,
+			blocked: (result?.blocked as number) || 0,
+		};
+	}
+
+	/**
+	 * Apply a single-card update to each card, collecting per-card failures
+	 */
+	private async updateCardsInBatch(
+		cardIds: number[],
+		update: (cardId: number) => Promise<boolean>,
+	): Promise<BatchOperationResult<{ card_id: number }>> {
+		const successful: Array<{ card_id: number }> = [];
+		const failed: Array<{ card_id: number; error: string }> = [];
+
+		for (const cardId of cardIds) {
+			try {
+				const success = await update(cardId);
+				if (success) {
+					successful.push({ card_id: cardId });
+				} else {
+					failed.push({
+						card_id: cardId,
+						error: 'Card not found',
+					});
+				}
+			} catch (error) {
+				failed.push({
+					card_id: cardId,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		return { successful, failed };
+	}
+
+	/**
+	 * Edit a card's instructions, tags, reference answer and/or rubric
+	 * An empty reference answer or rubric removes it.
+	 */
+	async editCard(
+		cardId: number,
+		instructions?: string,
+		tags?: string[],
+		details: CardDetails = {},
+	): Promise<boolean> {
+		// Check if card exists and belongs to user
+		const card = await this.db
+			.prepare("SELECT id, instructions, reference_answer, rubric FROM cards WHERE id = ? AND user_id = ? AND deleted_at IS NULL")
+			.bind(cardId, this.userId)
+			.first();
+
+		if (!card) {
+			return false;
+		}
+
+		// Keep the version being replaced so the edit shows up in the card's history
+		const current: CardVersion = {
+			instructions: card.instructions as string,
+			reference_answer: card.reference_answer as string | null,
+			rubric: card.rubric as string | null,
+			tags: await this.getCardTags(cardId),
+		};
+		const updated: CardVersion = {
+			instructions: instructions ?? current.instructions,
+			reference_answer: details.reference_answer !== undefined ? details.reference_answer?.trim() || null : current.reference_answer,
+			rubric: details.rubric !== undefined ? details.rubric?.trim() || null : current.rubric,
+			tags: tags !== undefined ? tags.map((tag) => tag.trim()).filter((tag) => tag) : current.tags,
+		};
+		if (Object.keys(diffVersions(current, updated)).length > 0) {
+			await this.db
+				.prepare(
+					`INSERT INTO card_versions (card_id, user_id, instructions, reference_answer, rubric, tags, source)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					cardId,
+					this.userId,
+					current.instructions,
+					current.reference_answer,
+					current.rubric,
+					JSON.stringify(current.tags),
+					this.source,
+				)
+				.run();
+		}
+
+		// Update instructions if provided
+		if (instructions !== undefined) {
+			await this.db
+				.prepare("UPDATE cards SET instructions = ? WHERE id = ? AND user_id = ?")
+				.bind(instructions, cardId, this.userId)
+				.run();
+		}
+
+		// Update reference answer / rubric if provided
+		for (const column of ["reference_answer", "rubric"] as const) {
+			if (details[column] !== undefined) {
+				await this.db
+					.prepare(`UPDATE cards SET ${column} = ? WHERE id = ? AND user_id = ?`)
+					.bind(details[column]?.trim() || null, cardId, this.userId)
+					.run();
+			}
+		}
+
+		// Update tags if provided
+		if (tags !== undefined) {
+			// Delete existing tags
+			await this.db
+				.prepare("DELETE FROM tags WHERE card_id = ? AND user_id = ?")
+				.bind(cardId, this.userId)
+				.run();
+
+			// Insert new tags
+			if (tags.length > 0) {
+				const tagInserts = tags
+					.filter((tag) => tag.trim())
+					.map((tag) =>
+						this.db
+							.prepare("INSERT INTO tags (card_id, user_id, tag) VALUES (?, ?, ?)")
+							.bind(cardId, this.userId, tag.trim()),
+					);
+				await this.db.batch(tagInserts);
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Edit multiple cards in batch
+	 */
+	async editCardsInBatch(edits: BatchEditInput[]): Promise<BatchOperationResult<{ card_id: number }>> {
+		const successful: Array<{ card_id: number }> = [];
+		const failed: Array<{ card_id: number; error: string }> = [];
+
+		for (const edit of edits) {
+			try {
+				const success = await this.editCard(edit.card_id, edit.instructions, edit.tags, {
+					reference_answer: edit.reference_answer,
+					rubric: edit.rubric,
+				});
+				if (success) {
+					successful.push({ card_id: edit.card_id });
+				} else {
+					failed.push({
+						card_id: edit.card_id,
+						error: 'Card not found',
+					});
+				}
+			} catch (error) {
+				failed.push({
+					card_id: edit.card_id,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		return { successful, failed };
+	}
+
+	/**
+	 * Import cards from an Anki package (.apkg)
+	 * Each Anki card becomes one card: its front becomes the instructions and its back the
+	 * reference answer (see readAnkiPackage for reversed and cloze cards). Anki tags and the
+	 * deck name become tags. With include_scheduling, each card's own review log is replayed.
+	 * Cards whose instructions and reference answer both match an existing card are skipped.
+	 */
+	async importAnki(data: Uint8Array, options: AnkiImportOptions = {}): Promise<ImportResult> {
+		const { include_scheduling = false } = options;
+		const ankiCards = await readAnkiPackage(data);
+
+		const result: ImportResult = { created: [], skipped: [], failed: [] };
+
+		for (let i = 0; i < ankiCards.length; i++) {
+			const ankiCard = ankiCards[i];
+			try {
+				const { front: instructions, back } = ankiCard;
+				if (!instructions) {
+					throw new Error("Card has an empty front");
+				}
+
+				const existingId = await this.findCardByInstructions(instructions, back);
+				if (existingId !== null) {
+					result.skipped.push({ index: i, card_id: existingId, reason: "duplicate" });
+					continue;
+				}
+
+				const tags = ankiCard.deck ? [...ankiCard.tags, ankiCard.deck] : ankiCard.tags;
+				const cardId = await this.addCard(instructions, tags, { reference_answer: back });
+
+				if (include_scheduling && ankiCard.reviews.length > 0) {
+					await this.replayReviews(cardId, ankiCard.reviews, tags);
+				}
+
+				result.created.push({ index: i, card_id: cardId });
+			} catch (error) {
+				result.failed.push({
+					index: i,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Export cards and their scheduling state as an Anki package (.apkg)
+	 * Uses the same tag filter as getAllCards. Each card goes in the Anki deck of its deepest
+	 * deck tag ("cs::algorithms"); cards without one share a single export deck.
+	 */
+	async exportAnki(tags: string[] = []): Promise<Uint8Array> {
+		let sql = `
+      SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.created_at, r.due, r.state, r.stability, r.difficulty,
+             r.elapsed_days, r.scheduled_days, r.learning_steps, r.reps, r.lapses,
+             r.last_review, GROUP_CONCAT(t.tag) as tags
+      FROM cards c
+      JOIN reviews r ON c.id = r.card_id
+      LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+      WHERE c.user_id = ? AND ${CARD_NOT_TRASHED}
+    `;
+		const params: any[] = [this.userId, this.userId];
+
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
+		}
+
+		sql += " GROUP BY c.id ORDER BY c.created_at ASC";
+
+		const [cardsResult, historyResult] = await Promise.all([
+			this.db.prepare(sql).bind(...params).all(),
+			this.db
+				.prepare(
+					`SELECT card_id, state, due, scheduled_days, lapses, rating, reviewed_at, created_at
+         FROM review_history
+         WHERE user_id = ? AND ${CARD_ID_NOT_TRASHED}
+         ORDER BY card_id, created_at, id`,
+				)
+				.bind(this.userId, this.userId)
+				.all(),
+		]);
+
+		const historyByCard = new Map<number, any[]>();
+		for (const row of historyResult.results) {
+			const rows = historyByCard.get(row.card_id as number) ?? [];
+			rows.push(row);
+			historyByCard.set(row.card_id as number, rows);
+		}
+
+		const exported: AnkiExportCard[] = cardsResult.results.map((row: any) => {
+			const card = this.toFsrsCard(row);
+
+			// review_history holds the state BEFORE each review, so the state after
+			// review i is snapshot i + 1 (or the current state for the last one)
+			const snapshots = historyByCard.get(row.id) ?? [];
+			const reviews: AnkiExportReview[] = snapshots.map((before, i) => {
+				const after = snapshots[i + 1] ?? row;
+				return {
+					// Reviews recorded before ratings were stored: a lapse means the card was forgotten
+					rating: (before.rating as Grade | null) ?? ((after.lapses as number) > (before.lapses as number) ? Rating.Again : Rating.Good),
+					reviewed_at: before.reviewed_at ? new Date(before.reviewed_at as string) : fromSqliteTimestamp(before.created_at as string),
+					state: before.state as State,
+					interval: after.scheduled_days as number,
+					last_interval: before.scheduled_days as number,
+					next_state: after.state as State,
+					next_due: new Date(after.due as string),
+				};
+			});
+
+			// The deepest deck tag picks the Anki deck ("cs::algorithms" over "cs"), alphabetically on ties
+			const cardTags: string[] = row.tags ? (row.tags as string).split(",") : [];
+			const [deck] = cardTags
+				.filter((tag) => tag.includes(DECK_SEPARATOR))
+				.sort((a, b) => b.split(DECK_SEPARATOR).length - a.split(DECK_SEPARATOR).length || a.localeCompare(b));
+
+			return {
+				id: row.id as number,
+				front: row.instructions as string,
+				back: (row.reference_answer as string | null) ?? "",
+				tags: cardTags,
+				deck,
+				created_at: fromSqliteTimestamp(row.created_at as string),
+				card,
+				reviews,
+			};
+		});
+
+		return writeAnkiPackage(exported);
+	}
+
+	/**
+	 * Import cards from CSV/TSV text with a header row
+	 * Columns are matched by header name (case-insensitive); options.columns overrides the names.
+	 * Each row is validated on its own, so one bad row doesn't stop the rest. Rows whose
+	 * instructions and reference answer already exist as a card are skipped.
+	 */
+	async importCsv(text: string, options: CsvImportOptions = {}): Promise<ImportResult> {
+		const delimiter = options.delimiter ?? detectDelimiter(text);
+		const [header, ...rows] = parseDelimited(text, delimiter);
+
+		if (!header) {
+			throw new Error("CSV is empty");
+		}
+
+		// Resolve column positions from the header row
+		const headerIndex = (name: string | undefined, fallbacks: string[]): number => {
+			const names = name ? [name] : fallbacks;
+			return header.findIndex((h) => names.includes(h.trim().toLowerCase()));
+		};
+		const columns = options.columns ?? {};
+		const instructionsCol = headerIndex(columns.instructions?.toLowerCase(), ["instructions", "front", "question"]);
+		const tagsCol = headerIndex(columns.tags?.toLowerCase(), ["tags", "tag"]);
+		const dueCol = headerIndex(columns.due?.toLowerCase(), ["due", "due_date", "due date"]);
+		const answerCol = headerIndex(columns.reference_answer?.toLowerCase(), ["reference_answer", "reference answer", "answer", "back"]);
+		const rubricCol = headerIndex(columns.rubric?.toLowerCase(), ["rubric"]);
+
+		if (instructionsCol === -1) {
+			throw new Error(`No instructions column found in header: ${header.join(", ")}`);
+		}
+		if (columns.tags && tagsCol === -1) {
+			throw new Error(`Tags column '${columns.tags}' not found in header`);
+		}
+		if (columns.due && dueCol === -1) {
+			throw new Error(`Due column '${columns.due}' not found in header`);
+		}
+		if (columns.reference_answer && answerCol === -1) {
+			throw new Error(`Reference answer column '${columns.reference_answer}' not found in header`);
+		}
+		if (columns.rubric && rubricCol === -1) {
+			throw new Error(`Rubric column '${columns.rubric}' not found in header`);
+		}
+
+		const result: ImportResult = { created: [], skipped: [], failed: [] };
+
+		for (let i = 0; i < rows.length; i++) {
+			const row = rows[i];
+			try {
+				const instructions = (row[instructionsCol] ?? "").trim();
+				if (!instructions) {
+					throw new Error("Missing instructions");
+				}
+
+				const tags = tagsCol !== -1 && row[tagsCol] ? row[tagsCol].split(/[,;]/).map((t) => t.trim()) : [];
+
+				let due: Date | undefined;
+				const dueValue = dueCol !== -1 ? (row[dueCol] ?? "").trim() : "";
+				if (dueValue) {
+					due = new Date(dueValue);
+					if (isNaN(due.getTime())) {
+						throw new Error(`Invalid due date '${dueValue}'`);
+					}
+				}
+
+				// Without an answer column, a row matches on its instructions alone
+				const referenceAnswer = answerCol !== -1 ? (row[answerCol] ?? "") : undefined;
+				const existingId = await this.findCardByInstructions(instructions, referenceAnswer);
+				if (existingId !== null) {
+					result.skipped.push({ index: i, card_id: existingId, reason: "duplicate" });
+					continue;
+				}
+
+				const cardId = await this.addCard(instructions, tags, {
+					reference_answer: referenceAnswer,
+					rubric: rubricCol !== -1 ? row[rubricCol] : undefined,
+				});
+
+				if (due) {
+					await this.db
+						.prepare("UPDATE reviews SET due = ? WHERE card_id = ? AND user_id = ?")
+						.bind(due.toISOString(), cardId, this.userId)
+						.run();
+				}
+
+				result.created.push({ index: i, card_id: cardId });
+			} catch (error) {
+				result.failed.push({
+					index: i,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Export cards with their tags and FSRS state as CSV/TSV text
+	 * Uses the same tag filter as getAllCards
+	 */
+	async exportCsv(tags: string[] = [], delimiter: string = ","): Promise<string> {
+		let sql = `
+      SELECT c.id, c.instructions, c.reference_answer, c.rubric, r.due, r.state, r.stability, r.difficulty,
+             r.reps, r.lapses, GROUP_CONCAT(t.tag) as tags
+      FROM cards c
+      JOIN reviews r ON c.id = r.card_id
+      LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+      WHERE c.user_id = ? AND ${CARD_NOT_TRASHED}
+    `;
+		const params: any[] = [this.userId, this.userId];
+
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
+		}
+
+		sql += " GROUP BY c.id ORDER BY c.created_at DESC";
+
+		const result = await this.db.prepare(sql).bind(...params).all();
+
+		const rows: Array<Array<string | number>> = [
+			["id", "instructions", "reference_answer", "rubric", "tags", "due", "state", "stability", "difficulty", "reps", "lapses"],
+		];
+		for (const row of result.results) {
+			rows.push([
+				row.id as number,
+				row.instructions as string,
+				(row.reference_answer as string | null) ?? "",
+				(row.rubric as string | null) ?? "",
+				(row.tags as string | null) ?? "",
+				new Date(row.due as string).toISOString(),
+				State[row.state as State],
+				Number((row.stability as number).toFixed(4)),
+				Number((row.difficulty as number).toFixed(4)),
+				row.reps as number,
+				row.lapses as number,
+			]);
+		}
+
+		return formatDelimited(rows, delimiter);
+	}
+
+	/**
+	 * Dump everything the user owns (cards, tags, current FSRS state and review history)
+	 * as a versioned JSON document that restoreBackup can read back losslessly
+	 */
+	async createBackup(): Promise<AccountBackup> {
+		const [cardsResult, tagsResult, historyResult, prerequisitesResult] = await this.db.batch([
+			this.db
+				.prepare(
+					`SELECT c.id, c.instructions, c.reference_answer, c.rubric, c.created_at, c.suspended, c.group_id, r.state, r.due, r.stability, r.difficulty,
+                  r.elapsed_days, r.scheduled_days, r.learning_steps, r.reps, r.lapses, r.last_review
+           FROM cards c
+           JOIN reviews r ON c.id = r.card_id
+           WHERE c.user_id = ? AND ${CARD_NOT_TRASHED}
+           ORDER BY c.id`,
+				)
+				.bind(this.userId),
+			this.db.prepare("SELECT card_id, tag FROM tags WHERE user_id = ? ORDER BY card_id, tag").bind(this.userId),
+			this.db
+				.prepare(
+					`SELECT card_id, state, due, stability, difficulty, elapsed_days, scheduled_days,
+                  learning_steps, reps, lapses, last_review, rating, reviewed_at,
+                  review_elapsed_days, question, user_answer, feedback, created_at
+           FROM review_history
+           WHERE user_id = ? AND ${CARD_ID_NOT_TRASHED}
+           ORDER BY card_id, created_at, id`,
+				)
+				.bind(this.userId, this.userId),
+			this.db
+				.prepare("SELECT card_id, prerequisite_id FROM card_prerequisites WHERE user_id = ? ORDER BY card_id, prerequisite_id")
+				.bind(this.userId),
+		]);
+
+		const cards = new Map<number, BackupCard>();
+		for (const row of cardsResult.results as any[]) {
+			cards.set(row.id, {
+				id: row.id,
+				instructions: row.instructions,
+				reference_answer: row.reference_answer,
+				rubric: row.rubric,
+				created_at: row.created_at,
+				tags: [],
+				suspended: row.suspended === 1,
+				group_id: row.group_id,
+				prerequisites: [],
+				review: pickReviewState(row),
+				history: [],
+			});
+		}
+		for (const row of tagsResult.results as any[]) {
+			cards.get(row.card_id)?.tags.push(row.tag);
+		}
+		for (const row of prerequisitesResult.results as any[]) {
+			cards.get(row.card_id)?.prerequisites?.push(row.prerequisite_id);
+		}
+		for (const row of historyResult.results as any[]) {
+			cards.get(row.card_id)?.history.push({
+				...pickReviewState(row),
+				rating: row.rating,
+				reviewed_at: row.reviewed_at,
+				review_elapsed_days: row.review_elapsed_days,
+				question: row.question,
+				user_answer: row.user_answer,
+				feedback: row.feedback,
+				created_at: row.created_at,
+			});
+		}
+
+		return {
+			version: BACKUP_VERSION,
+			exported_at: new Date().toISOString(),
+			user_id: this.userId,
+			cards: [...cards.values()],
+		};
+	}
+
+	/**
+	 * Re-create cards from a backup for the current user
+	 * Card IDs are remapped; FSRS state and review history are kept as-is.
+	 * Cards whose instructions and reference answer already exist (or appear earlier in the
+	 * backup) are skipped, so restoring after a partial loss only brings back what's missing.
+	 * Each card is written in a single batch. Nothing is written when dryRun is true.
+	 */
+	async restoreBackup(backup: unknown, dryRun: boolean = true): Promise<RestoreResult> {
+		const { cards } = parseBackup(backup);
+		const result: RestoreResult = { dry_run: dryRun, created: [], skipped: [], failed: [] };
+		const groups = new Map<number, number>(); // Group ID in the backup -> new group ID
+		const seen = new Map<string, number | null>(); // Instructions + answer restored in this run -> new card ID
+
+		for (const card of cards) {
+			try {
+				const referenceAnswer = (card.reference_answer ?? "").trim();
+				const key = `${card.instructions}\u0000${referenceAnswer}`;
+				if (seen.has(key)) {
+					result.skipped.push({ old_id: card.id, card_id: seen.get(key)!, reason: "duplicate in backup" });
+					continue;
+				}
+
+				const existingId = await this.findCardByInstructions(card.instructions, referenceAnswer);
+				if (existingId !== null) {
+					result.skipped.push({ old_id: card.id, card_id: existingId, reason: "duplicate" });
+					continue;
+				}
+
+				if (dryRun) {
+					seen.set(key, null);
+					result.created.push({ old_id: card.id, new_id: null });
+					continue;
+				}
+
+				// The card and everything hanging off it go in one batch, so a failure leaves nothing
+				// behind. Later statements find the new card (and group) as the user's highest ID
+				const statements: D1PreparedStatement[] = [];
+				const newGroup = card.group_id != null && !groups.has(card.group_id);
+				if (newGroup) {
+					statements.push(this.db.prepare("INSERT INTO card_groups (user_id) VALUES (?)").bind(this.userId));
+				}
+				const groupId = card.group_id != null ? (groups.get(card.group_id) ?? null) : null;
+				const cardIndex = statements.length;
+				statements.push(
+					this.db
+						.prepare(
+							`INSERT INTO cards (user_id, instructions, reference_answer, rubric, created_at, suspended, group_id)
+               VALUES (?, ?, ?, ?, ?, ?, ${newGroup ? "(SELECT MAX(id) FROM card_groups WHERE user_id = ?)" : "?"})`,
+						)
+						.bind(
+							this.userId,
+							card.instructions,
+							card.reference_answer ?? null,
+							card.rubric ?? null,
+							card.created_at ?? toSqliteTimestamp(new Date()),
+							card.suspended ? 1 : 0,
+							newGroup ? this.userId : groupId,
+						),
+				);
+
+				const newCardId = "(SELECT MAX(id) FROM cards WHERE user_id = ?)";
+				const { review } = card;
+				statements.push(
+					this.db
+						.prepare(
+							`INSERT INTO reviews (card_id, user_id, state, due, stability, difficulty,
+               elapsed_days, scheduled_days, learning_steps, reps, lapses, last_review)
+               VALUES (${newCardId}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+						)
+						.bind(
+							this.userId,
+							this.userId,
+							review.state,
+							review.due,
+							review.stability,
+							review.difficulty,
+							review.elapsed_days,
+							review.scheduled_days,
+							review.learning_steps,
+							review.reps,
+							review.lapses,
+							review.last_review,
+						),
+					...card.tags
+						.filter((tag) => tag.trim())
+						.map((tag) =>
+							this.db
+								.prepare(`INSERT OR IGNORE INTO tags (card_id, user_id, tag) VALUES (${newCardId}, ?, ?)`)
+								.bind(this.userId, this.userId, tag.trim()),
+						),
+					...card.history.map((entry) =>
+						this.db
+							.prepare(
+								`INSERT INTO review_history (card_id, user_id, state, due, stability, difficulty,
+                 elapsed_days, scheduled_days, learning_steps, reps, lapses, last_review,
+                 rating, reviewed_at, review_elapsed_days, question, user_answer, feedback, created_at)
+                 VALUES (${newCardId}, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+							)
+							.bind(
+								this.userId,
+								this.userId,
+								entry.state,
+								entry.due,
+								entry.stability,
+								entry.difficulty,
+								entry.elapsed_days,
+								entry.scheduled_days,
+								entry.learning_steps,
+								entry.reps,
+								entry.lapses,
+								entry.last_review,
+								entry.rating ?? null,
+								entry.reviewed_at ?? null,
+								entry.review_elapsed_days ?? null,
+								entry.question ?? null,
+								entry.user_answer ?? null,
+								entry.feedback ?? null,
+								entry.created_at,
+							),
+					),
+				);
+
+				const results = await this.db.batch(statements);
+				const cardId = results[cardIndex].meta.last_row_id as number;
+				if (newGroup) groups.set(card.group_id!, results[0].meta.last_row_id as number);
+
+				seen.set(key, cardId);
+				result.created.push({ old_id: card.id, new_id: cardId });
+			} catch (error) {
+				result.failed.push({
+					old_id: card.id,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				});
+			}
+		}
+
+		// Re-link prerequisites once every card has its new ID. Links that can't be made (e.g. they
+		// would now form a cycle with the user's existing cards) are reported under failed
+		if (!dryRun) {
+			const newIds = new Map<number, number>();
+			for (const { old_id, new_id } of result.created) if (new_id !== null) newIds.set(old_id, new_id);
+			for (const { old_id, card_id } of result.skipped) if (card_id !== null) newIds.set(old_id, card_id);
+
+			for (const card of cards) {
+				for (const prerequisite of card.prerequisites ?? []) {
+					const cardId = newIds.get(card.id);
+					const prerequisiteId = newIds.get(prerequisite);
+					if (cardId === undefined || prerequisiteId === undefined) continue;
+					try {
+						await this.addPrerequisite(cardId, prerequisiteId);
+					} catch (error) {
+						result.failed.push({
+							old_id: card.id,
+							error: `Prerequisite ${prerequisite} not linked: ${error instanceof Error ? error.message : 'Unknown error'}`,
+						});
+					}
+				}
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Find a card with exactly these instructions (used to skip duplicates on import and restore)
+	 * When referenceAnswer is given it must match too ("" matches a card without one), so cards
+	 * sharing a front but with different answers count as distinct. Every path that knows the
+	 * card's answer passes it; only add_card's similarity check goes by instructions alone.
+	 */
+	private async findCardByInstructions(instructions: string, referenceAnswer?: string): Promise<number | null> {
+		let sql = "SELECT id FROM cards WHERE user_id = ? AND instructions = ? AND deleted_at IS NULL";
+		const params: any[] = [this.userId, instructions];
+		if (referenceAnswer !== undefined) {
+			sql += " AND IFNULL(reference_answer, '') = ?";
+			params.push(referenceAnswer.trim());
+		}
+
+		const row = await this.db
+			.prepare(`${sql} LIMIT 1`)
+			.bind(...params)
+			.first();
+
+		return row ? (row.id as number) : null;
+	}
+
+	/**
+	 * Rebuild a new card's FSRS state by replaying an external review log
+	 * Writes one review_history snapshot per review (so streaks and undo keep working)
+	 * and stores the final state in the reviews table.
+	 */
+	private async replayReviews(cardId: number, reviews: AnkiReview[], tags: string[]): Promise<void> {
+		const scheduler = await this.getScheduler(tags);
+		let card = createEmptyCard(reviews[0].reviewed_at);
+		const statements: D1PreparedStatement[] = [];
+
+		for (const { rating, reviewed_at } of reviews) {
+			const elapsedDays = card.last_review
+				? (reviewed_at.getTime() - card.last_review.getTime()) / (1000 * 60 * 60 * 24)
+				: null;
+
+			statements.push(
+				this.db
+					.prepare(
+						`INSERT INTO review_history (card_id, user_id, state, due, stability, difficulty,
+         elapsed_days, scheduled_days, learning_steps, reps, lapses, last_review,
+         rating, reviewed_at, review_elapsed_days, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+					)
+					.bind(
+						cardId,
+						this.userId,
+						card.state,
+						card.due.toISOString(),
+						card.stability,
+						card.difficulty,
+						card.elapsed_days,
+						card.scheduled_days,
+						card.learning_steps,
+						card.reps,
+						card.lapses,
+						card.last_review ? card.last_review.toISOString() : null,
+						rating,
+						reviewed_at.toISOString(),
+						elapsedDays,
+						toSqliteTimestamp(reviewed_at),
+					),
+			);
+			card = scheduler.next(card, reviewed_at, rating).card;
+		}
+
+		statements.push(
+			this.db
+				.prepare(
+					`UPDATE reviews
+         SET state = ?, due = ?, stability = ?, difficulty = ?,
+             elapsed_days = ?, scheduled_days = ?, learning_steps = ?,
+             reps = ?, lapses = ?, last_review = ?
+         WHERE card_id = ? AND user_id = ?`,
+				)
+				.bind(
+					card.state,
+					card.due.toISOString(),
+					card.stability,
+					card.difficulty,
+					card.elapsed_days,
+					card.scheduled_days,
+					card.learning_steps,
+					card.reps,
+					card.lapses,
+					card.last_review ? card.last_review.toISOString() : null,
+					cardId,
+					this.userId,
+				),
+		);
+
+		await this.db.batch(statements);
+	}
+
+	/**
+	 * Fit personalized FSRS parameters from the user's review log and save them
+	 * Only reviews with a recorded rating are used.
+	 */
+	async optimizeParameters(): Promise<OptimizationResult> {
+		const result = await this.db
+			.prepare(
+				`SELECT card_id, rating, reviewed_at, created_at
+         FROM review_history
+         WHERE user_id = ? AND rating IS NOT NULL AND ${CARD_ID_NOT_TRASHED}`,
+			)
+			.bind(this.userId, this.userId)
+			.all();
+
+		const log: ReviewLogEntry[] = result.results.map((row) => ({
+			card_id: row.card_id as number,
+			rating: row.rating as Grade,
+			reviewed_at: row.reviewed_at ? new Date(row.reviewed_at as string) : fromSqliteTimestamp(row.created_at as string),
+		}));
+
+		const current = await this.getSchedulerParameters();
+		const optimized = optimizeParameters(log, current.parameters);
+
+		await this.db
+			.prepare(
+				`INSERT OR REPLACE INTO fsrs_parameters (user_id, parameters, review_count, loss_before, loss_after, updated_at)
+         VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+			)
+			.bind(
+				this.userId,
+				JSON.stringify(optimized.parameters),
+				optimized.review_count,
+				optimized.loss_before,
+				optimized.loss_after,
+			)
+			.run();
+
+		// Rebuild schedulers with the new weights on next use
+		this.parameters = undefined;
+		this.schedulers.clear();
+
+		return optimized;
+	}
+
+	/**
+	 * Get the FSRS parameters used to schedule this user's cards
+	 */
+	async getSchedulerParameters(): Promise<SchedulerParameters> {
+		const row = await this.db
+			.prepare(
+				`SELECT parameters, review_count, loss_before, loss_after, updated_at
+         FROM fsrs_parameters WHERE user_id = ?`,
+			)
+			.bind(this.userId)
+			.first();
+
+		if (!row) {
+			return {
+				parameters: [...default_w],
+				personalized: false,
+				review_count: null,
+				loss_before: null,
+				loss_after: null,
+				updated_at: null,
+			};
+		}
+
+		return {
+			parameters: JSON.parse(row.parameters as string) as number[],
+			personalized: true,
+			review_count: row.review_count as number,
+			loss_before: row.loss_before as number | null,
+			loss_after: row.loss_after as number | null,
+			updated_at: row.updated_at as string,
+		};
+	}
+
+	/**
+	 * Get the user's settings and per-tag overrides
+	 */
+	async getSettings(): Promise<SettingsView> {
+		if (!this.settings) {
+			this.settings = this.db
+				.prepare("SELECT tag, data FROM settings WHERE user_id = ?")
+				.bind(this.userId)
+				.all()
+				.then((result) => {
+					const view: SettingsView = { settings: { ...DEFAULT_SETTINGS }, tag_overrides: {} };
+					for (const row of result.results) {
+						const data = JSON.parse(row.data as string);
+						if (row.tag === "") {
+							view.settings = { ...view.settings, ...data };
+						} else {
+							view.tag_overrides[row.tag as string] = data;
+						}
+					}
+					return view;
+				});
+		}
+		return this.settings;
+	}
+
+	/**
+	 * Change settings for the user, or override scheduler settings for one tag
+	 * Fields not in the update keep their current value.
+	 */
+	async updateSettings(update: Partial<Settings>, tag?: string): Promise<SettingsView> {
+		const errors: string[] = [];
+		for (const [key, value] of Object.entries(update)) {
+			if (value === undefined) continue;
+			const validate = SETTING_VALIDATORS[key as keyof Settings];
+			if (!validate) {
+				errors.push(`Unknown setting '${key}'`);
+			} else if (tag && !SCHEDULER_SETTING_KEYS.includes(key as keyof SchedulerSettings)) {
+				errors.push(`'${key}' can't be overridden per tag`);
+			} else {
+				const error = validate(value);
+				if (error) errors.push(`${key} ${error}`);
+			}
+		}
+		if (errors.length > 0) {
+			throw new Error(errors.join("; "));
+		}
+
+		const row = await this.db
+			.prepare("SELECT data FROM settings WHERE user_id = ? AND tag = ?")
+			.bind(this.userId, tag ?? "")
+			.first();
+		const data = { ...(row ? JSON.parse(row.data as string) : {}), ...update };
+
+		await this.db
+			.prepare(
+				`INSERT OR REPLACE INTO settings (user_id, tag, data, updated_at)
+         VALUES (?, ?, ?, CURRENT_TIMESTAMP)`,
+			)
+			.bind(this.userId, tag ?? "", JSON.stringify(data))
+			.run();
+
+		this.settings = undefined;
+		this.schedulers.clear();
+		return this.getSettings();
+	}
+
+	/**
+	 * Reset the user's settings to the defaults, or remove one tag's overrides
+	 */
+	async resetSettings(tag?: string): Promise<SettingsView> {
+		await this.db
+			.prepare("DELETE FROM settings WHERE user_id = ? AND tag = ?")
+			.bind(this.userId, tag ?? "")
+			.run();
+
+		this.settings = undefined;
+		this.schedulers.clear();
+		return this.getSettings();
+	}
+
+	/**
+	 * The user's timezone and day rollover, for everything that works in days
+	 */
+	private async getClock(): Promise<DayClock> {
+		const { settings } = await this.getSettings();
+		return { timeZone: settings.timezone, rolloverHour: settings.day_rollover_hour };
+	}
+
+	/**
+	 * SQL condition (on reviews r) for cards that are due now
+	 * New and review cards are due for their whole due day, like in Anki, so they don't
+	 * trickle in at odd hours; learning steps are minutes apart and wait for their exact time.
+	 */
+	private async dueFilter(now: Date = new Date(), includeBlocked: boolean = false): Promise<{ sql: string; params: any[] }> {
+		const endOfToday = startOfNextStudyDay(now, await this.getClock());
+		const sql = `datetime(r.due) < datetime(?) AND (r.state IN (${State.New}, ${State.Review}) OR datetime(r.due) <= datetime(?))`;
+		const params = [endOfToday.toISOString(), now.toISOString()];
+		if (includeBlocked) return { sql, params };
+
+		const blocked = await this.blockedFilter();
+		return { sql: `${sql} AND NOT ${blocked.sql}`, params: [...params, ...blocked.params] };
+	}
+
+	/**
+	 * SQL condition on reviews r / cards c: a new card with a prerequisite that isn't learned yet
+	 */
+	private async blockedFilter(): Promise<{ sql: string; params: any[] }> {
+		const { prerequisite_stability } = (await this.getSettings()).settings;
+		return {
+			sql: `(r.state = ${State.New} AND EXISTS (
+        SELECT 1 FROM card_prerequisites p
+        JOIN reviews pr ON pr.card_id = p.prerequisite_id
+        JOIN cards pc ON pc.id = p.prerequisite_id
+        WHERE p.card_id = c.id AND p.user_id = ? AND pc.deleted_at IS NULL
+          AND (pr.state = ${State.New} OR pr.stability < ?)))`,
+			params: [this.userId, prerequisite_stability],
+		};
+	}
+
+	/**
+	 * Resolve the scheduler settings for a card with the given tags
+	 * Overrides on a deck also apply to the decks below it. When several tags override
+	 * the same setting, the override with the higher desired retention wins.
+	 */
+	private async getSchedulerSettings(tags: string[]): Promise<SchedulerSettings> {
+		const { settings, tag_overrides } = await this.getSettings();
+
+		const overrides = [...new Set(tags.flatMap(deckPaths))]
+			.map((tag) => tag_overrides[tag])
+			.filter((override) => override !== undefined)
+			.sort((a, b) => (a.desired_retention ?? 0) - (b.desired_retention ?? 0));
+
+		const resolved: SchedulerSettings = {
+			desired_retention: settings.desired_retention,
+			maximum_interval: settings.maximum_interval,
+			learning_steps: settings.learning_steps,
+			relearning_steps: settings.relearning_steps,
+			enable_fuzz: settings.enable_fuzz,
+		};
+		return Object.assign(resolved, ...overrides);
+	}
+
+	/**
+	 * Get the FSRS scheduler for a card with the given tags, built from the user's
+	 * fitted parameters (or the FSRS defaults) and their settings
+	 */
+	private async getScheduler(tags: string[] = []): Promise<FSRS> {
+		if (!this.parameters) {
+			this.parameters = this.getSchedulerParameters();
+		}
+		const [{ parameters }, settings] = await Promise.all([this.parameters, this.getSchedulerSettings(tags)]);
+
+		const key = JSON.stringify(settings);
+		let scheduler = this.schedulers.get(key);
+		if (!scheduler) {
+			scheduler = fsrs(
+				generatorParameters({
+					w: parameters,
+					request_retention: settings.desired_retention,
+					maximum_interval: settings.maximum_interval,
+					learning_steps: settings.learning_steps,
+					relearning_steps: settings.relearning_steps,
+					enable_fuzz: settings.enable_fuzz,
+				}),
+			);
+			this.schedulers.set(key, scheduler);
+		}
+		return scheduler;
+	}
+
+	/**
+	 * SQL filter (appended to a WHERE on cards c) for cards with any of the tags
+	 * A tag also matches every deck below it: "cs" matches "cs::algorithms::graphs"
+	 */
+	private tagFilter(tags: string[]): { sql: string; params: any[] } {
+		const condition = this.tagCondition(tags);
+		return { sql: ` AND ${condition.sql}`, params: condition.params };
+	}
+
+	/**
+	 * The condition itself, for combining with other conditions
+	 */
+	private tagCondition(tags: string[]): { sql: string; params: any[] } {
+		const conditions = tags.map(() => "(tag = ? OR substr(tag, 1, ?) = ?)").join(" OR ");
+		const params: any[] = [this.userId];
+		for (const tag of tags) {
+			params.push(tag, [...tag].length + DECK_SEPARATOR.length, tag + DECK_SEPARATOR);
+		}
+
+		return {
+			sql: `c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND (${conditions}))`,
+			params,
+		};
+	}
+
+	/**
+	 * Get a card's tags
+	 */
+	private async getCardTags(cardId: number): Promise<string[]> {
+		const result = await this.db
+			.prepare("SELECT tag FROM tags WHERE card_id = ? AND user_id = ?")
+			.bind(cardId, this.userId)
+			.all();
+
+		return result.results.map((row) => row.tag as string);
+	}
+
+	/**
+	 * Create an (empty) deck so it can be filled later
+	 * Cards join a deck by having its name as a tag, e.g. "cs::algorithms::graphs"
+	 */
+	async createDeck(name: string): Promise<string> {
+		const deck = normalizeDeckName(name);
+
+		await this.db
+			.prepare("INSERT OR IGNORE INTO decks (user_id, name) VALUES (?, ?)")
+			.bind(this.userId, deck)
+			.run();
+
+		return deck;
+	}
+
+	/**
+	 * Rename a deck in place, keeping its parent: renameDeck("cs::algo", "algorithms")
+	 * gives "cs::algorithms". Subdecks move along with it.
+	 */
+	async renameDeck(name: string, newName: string): Promise<{ name: string; cards: number }> {
+		const deck = normalizeDeckName(name);
+		const leaf = normalizeDeckName(newName);
+		if (leaf.includes(DECK_SEPARATOR)) {
+			throw new Error(`New name can't contain '${DECK_SEPARATOR}' - use move_deck to change the parent`);
+		}
+
+		const parent = deck.split(DECK_SEPARATOR).slice(0, -1);
+		const target = [...parent, leaf].join(DECK_SEPARATOR);
+		return { name: target, cards: await this.rewriteDeck(deck, target) };
+	}
+
+	/**
+	 * Move a deck (and its subdecks) under another parent, or to the top level
+	 * when parent is empty: moveDeck("cs::algo", "math") gives "math::algo"
+	 */
+	async moveDeck(name: string, parent: string): Promise<{ name: string; cards: number }> {
+		const deck = normalizeDeckName(name);
+		const leaf = deck.split(DECK_SEPARATOR).pop()!;
+		const target = parent.trim() ? `${normalizeDeckName(parent)}${DECK_SEPARATOR}${leaf}` : leaf;
+		return { name: target, cards: await this.rewriteDeck(deck, target) };
+	}
+
+	/**
+	 * Replace the deck prefix `from` with `to` on every tag, empty deck and settings override
+	 * in the subtree, in a single batch. Merges into `to` if it already exists. Every card in
+	 * the subtree gets a version first, so the move shows up in its history.
+	 * Returns the number of cards in the moved subtree (trashed cards move too, but aren't counted).
+	 */
+	private async rewriteDeck(from: string, to: string): Promise<number> {
+		if (to === from) {
+			throw new Error(`Deck '${from}' is already named '${to}'`);
+		}
+		if (to.startsWith(from + DECK_SEPARATOR)) {
+			throw new Error(`Can't move deck '${from}' into its own subdeck '${to}'`);
+		}
+
+		// substr() counts characters, not UTF-16 units
+		const fromLength = [...from].length;
+		const match = (column: string) => `(${column} = ? OR substr(${column}, 1, ?) = ?)`;
+		const matchParams = [from, fromLength + DECK_SEPARATOR.length, from + DECK_SEPARATOR];
+
+		const [countResult, deckResult] = await this.db.batch([
+			this.db
+				.prepare(
+					`SELECT COUNT(DISTINCT card_id) as count FROM tags
+           WHERE user_id = ? AND ${match("tag")} AND card_id IN (SELECT id FROM cards WHERE user_id = ? AND deleted_at IS NULL)`,
+				)
+				.bind(this.userId, ...matchParams, this.userId),
+			this.db
+				.prepare(`SELECT COUNT(*) as count FROM decks WHERE user_id = ? AND ${match("name")}`)
+				.bind(this.userId, ...matchParams),
+		]);
+		const cardCount = (countResult.results[0] as any)?.count ?? 0;
+		const deckCount = (deckResult.results[0] as any)?.count ?? 0;
+
+		if (cardCount === 0 && deckCount === 0) {
+			throw new Error(`Deck '${from}' not found`);
+		}
+
+		await this.db.batch([
+			this.saveVersionsStatement(match("tag"), matchParams),
+			this.db
+				.prepare(
+					`INSERT OR IGNORE INTO tags (card_id, user_id, tag)
+           SELECT card_id, user_id, ? || substr(tag, ?) FROM tags WHERE user_id = ? AND ${match("tag")}`,
+				)
+				.bind(to, fromLength + 1, this.userId, ...matchParams),
+			this.db.prepare(`DELETE FROM tags WHERE user_id = ? AND ${match("tag")}`).bind(this.userId, ...matchParams),
+			this.db
+				.prepare(
+					`INSERT OR IGNORE INTO decks (user_id, name, created_at)
+           SELECT user_id, ? || substr(name, ?), created_at FROM decks WHERE user_id = ? AND ${match("name")}`,
+				)
+				.bind(to, fromLength + 1, this.userId, ...matchParams),
+			this.db.prepare(`DELETE FROM decks WHERE user_id = ? AND ${match("name")}`).bind(this.userId, ...matchParams),
+			this.db
+				.prepare(`UPDATE OR REPLACE settings SET tag = ? || substr(tag, ?) WHERE user_id = ? AND ${match("tag")}`)
+				.bind(to, fromLength + 1, this.userId, ...matchParams),
+		]);
+
+		this.settings = undefined;
+		this.schedulers.clear();
+		return cardCount;
+	}
+
+	/**
+	 * Every tag in use with how many cards have it, alphabetically
+	 */
+	async listTags(): Promise<TagUsage[]> {
+		const result = await this.db
+			.prepare(
+				`SELECT t.tag, COUNT(*) as cards
+         FROM tags t
+         JOIN cards c ON t.card_id = c.id
+         WHERE t.user_id = ? AND ${CARD_NOT_TRASHED}
+         GROUP BY t.tag
+         ORDER BY t.tag`,
+			)
+			.bind(this.userId)
+			.all();
+
+		return result.results.map((row: any) => ({ tag: row.tag, cards: row.cards }));
+	}
+
+	/**
+	 * Rename a tag on every card that has it. Only the exact tag changes - use renameDeck to
+	 * take subdecks along. Merges into newName if it's already in use.
+	 * Returns the number of cards retagged
+	 */
+	async renameTag(tag: string, newName: string): Promise<number> {
+		if (tag.trim() === newName.trim()) {
+			throw new Error(`Tag '${tag.trim()}' is already named '${newName.trim()}'`);
+		}
+		return this.mergeTags([tag], newName);
+	}
+
+	/**
+	 * Replace several tags with one, in a single batch: every card with any of the tags gets
+	 * `into` instead. A settings override moves to `into` unless it has one of its own.
+	 * Returns the number of cards retagged
+	 */
+	async mergeTags(tags: string[], into: string): Promise<number> {
+		const target = normalizeTagName(into);
+		const sources = [...new Set(tags.map((tag) => tag.trim()).filter((tag) => tag && tag !== target))];
+		if (sources.length === 0) {
+			throw new Error(`Need at least one tag other than '${target}' to merge into it`);
+		}
+
+		const inSources = `tag IN (${sources.map(() => "?").join(", ")})`;
+		const results = await this.db.batch([
+			this.tagUsageStatement(sources),
+			this.saveVersionsStatement(inSources, sources),
+			// An override moves even when no card has the exact tag, e.g. one set on a deck prefix
+			this.db
+				.prepare(`UPDATE OR IGNORE settings SET tag = ? WHERE user_id = ? AND ${inSources}`)
+				.bind(target, this.userId, ...sources),
+			this.db.prepare(`DELETE FROM settings WHERE user_id = ? AND ${inSources}`).bind(this.userId, ...sources),
+			this.db
+				.prepare(
+					`INSERT OR IGNORE INTO tags (card_id, user_id, tag)
+           SELECT card_id, user_id, ? FROM tags WHERE user_id = ? AND ${inSources}`,
+				)
+				.bind(target, this.userId, ...sources),
+			this.db.prepare(`DELETE FROM tags WHERE user_id = ? AND ${inSources}`).bind(this.userId, ...sources),
+		]);
+
+		const cards = this.readTagUsage(results[0], sources);
+		this.settings = undefined;
+		this.schedulers.clear();
+		return cards;
+	}
+
+	/**
+	 * Remove a tag from every card (the cards themselves are kept), along with its settings
+	 * override, in a single batch. Returns the number of cards untagged
+	 */
+	async deleteTag(tag: string): Promise<number> {
+		const name = tag.trim();
+		const results = await this.db.batch([
+			this.tagUsageStatement([name]),
+			this.saveVersionsStatement("tag = ?", [name]),
+			this.db.prepare("DELETE FROM settings WHERE user_id = ? AND tag = ?").bind(this.userId, name),
+			this.db.prepare("DELETE FROM tags WHERE user_id = ? AND tag = ?").bind(this.userId, name),
+		]);
+
+		const cards = this.readTagUsage(results[0], [name]);
+		this.settings = undefined;
+		this.schedulers.clear();
+		return cards;
+	}
+
+	/**
+	 * Counts cards with any of the tags (all of them, and those not in the trash) and the
+	 * settings overrides on them
+	 */
+	private tagUsageStatement(tags: string[]): D1PreparedStatement {
+		const inTags = `IN (${tags.map(() => "?").join(", ")})`;
+		return this.db
+			.prepare(
+				`SELECT COUNT(DISTINCT t.card_id) as total,
+                COUNT(DISTINCT CASE WHEN ${CARD_NOT_TRASHED} THEN t.card_id END) as cards,
+                (SELECT COUNT(*) FROM settings WHERE user_id = ? AND tag ${inTags}) as overrides
+         FROM tags t
+         JOIN cards c ON t.card_id = c.id
+         WHERE t.user_id = ? AND t.tag ${inTags}`,
+			)
+			.bind(this.userId, ...tags, this.userId, ...tags);
+	}
+
+	/**
+	 * Keep the current version of every card with a tag matching `condition` (an SQL condition
+	 * on `tag` with its params), as editCard does, so tag changes show up in card histories and
+	 * can be reverted. Must run before the tags change
 	 */
-	async deleteCard(cardId: number): Promise<boolean> {
-		const result = await this.db
-			.prepare("DELETE FROM cards WHERE id = ? AND user_id = ?")
-			.bind(cardId, this.userId)
-			.run();
+	private saveVersionsStatement(condition: string, params: unknown[]): D1PreparedStatement {
+		return this.db
+			.prepare(
+				`INSERT INTO card_versions (card_id, user_id, instructions, reference_answer, rubric, tags, source)
+         SELECT c.id, c.user_id, c.instructions, c.reference_answer, c.rubric,
+                (SELECT json_group_array(tag) FROM tags WHERE card_id = c.id AND user_id = ?), ?
+         FROM cards c
+         WHERE c.user_id = ? AND c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND ${condition})`,
+			)
+			.bind(this.userId, this.source, this.userId, this.userId, ...params);
+	}
 
-		return result.meta.changes > 0;
+	/**
+	 * The live card count from tagUsageStatement, throwing if neither a card nor a settings
+	 * override had any of the tags (in which case the batch changed nothing)
+	 */
+	private readTagUsage(result: D1Result, tags: string[]): number {
+		const row = result.results[0] as any;
+		if (!row?.total && !row?.overrides) {
+			throw new Error(tags.length === 1 ? `Tag '${tags[0]}' not found` : `Tags not found: ${tags.join(", ")}`);
+		}
+		return row.cards as number;
 	}
 
 	/**
-	 * Delete multiple cards in batch
+	 * Forecast how many cards come due on each of the next `days` days (today first,
+	 * including overdue cards), broken down by FSRS state and tag
+	 * Cards are counted the way getDueCards would serve them: buried cards on the day they come
+	 * back, new cards blocked by prerequisites not at all, and each day capped at the daily
+	 * limits (today's remaining ones first), with the overflow carried to the following days.
+	 * With includeLapses, each day also gets the expected number of reviews that will be
+	 * forgotten, from each card's retrievability when it comes due.
 	 */
-	async deleteCardsInBatch(cardIds: number[]): Promise<BatchOperationResult<{ card_id: number }>> {
-		const successful: Array<{ card_id: number }> = [];
-		const failed: Array<{ card_id: number; error: string }> = [];
+	async getForecast(days: number = 7, tags: string[] = [], includeLapses: boolean = false): Promise<Forecast> {
+		const now = new Date();
+		const clock = await this.getClock();
+		const today = studyDay(now, clock);
+		const end = startOfStudyDay(addDays(today, days), clock);
+		const blocked = await this.blockedFilter();
 
-		for (const cardId of cardIds) {
-			try {
-				const success = await this.deleteCard(cardId);
-				if (success) {
-					successful.push({ card_id: cardId });
-				} else {
-					failed.push({
-						card_id: cardId,
-						error: 'Card not found',
-					});
+		// A buried card is due again once buried_until passes
+		let sql = `
+      SELECT c.id, r.due, r.state, r.stability, r.difficulty, r.elapsed_days, r.scheduled_days,
+             r.learning_steps, r.reps, r.lapses, r.last_review, GROUP_CONCAT(t.tag) as tags,
+             CASE WHEN ${CARD_BURIED} AND datetime(c.buried_until) > datetime(r.due) THEN c.buried_until ELSE r.due END as available
+      FROM cards c
+      JOIN reviews r ON c.id = r.card_id
+      LEFT JOIN tags t ON c.id = t.card_id AND t.user_id = ?
+      WHERE c.user_id = ? AND ${CARD_NOT_TRASHED} AND c.suspended = 0 AND NOT ${blocked.sql}
+        AND datetime(available) < datetime(?)
+    `;
+		const params: any[] = [this.userId, this.userId, ...blocked.params, end.toISOString()];
+
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
+		}
+
+		sql += " GROUP BY c.id ORDER BY datetime(available), c.id";
+
+		const [result, { settings }, limits] = await Promise.all([
+			this.db.prepare(sql).bind(...params).all(),
+			this.getSettings(),
+			this.getDailyLimits(),
+		]);
+
+		const forecast: Forecast = {
+			overdue: 0,
+			total: 0,
+			held_back: 0,
+			days: Array.from({ length: days }, (_, i) => ({
+				date: addDays(today, i),
+				due: 0,
+				by_state: { new: 0, learning: 0, review: 0, relearning: 0 },
+				by_tag: {},
+				...(includeLapses ? { projected_lapses: 0 } : {}),
+			})),
+		};
+
+		// Walk the days in order; cards over a day's limits wait for the next one
+		const rows = result.results as any[];
+		let carried: any[] = [];
+		let next = 0;
+		for (let i = 0; i < days; i++) {
+			const day = forecast.days[i];
+			const dayStart = startOfStudyDay(day.date, clock);
+			const dayEnd = startOfStudyDay(addDays(day.date, 1), clock);
+			const queue = carried;
+			while (next < rows.length && new Date(rows[next].available) < dayEnd) queue.push(rows[next++]);
+
+			let newRemaining = i === 0 ? limits.new_remaining : settings.new_cards_per_day;
+			let reviewsRemaining = i === 0 ? limits.reviews_remaining : settings.reviews_per_day;
+			carried = [];
+			for (const row of queue) {
+				// Cards in learning steps are always shown, as in getDueCards
+				if (row.state !== State.Learning && row.state !== State.Relearning) {
+					if (reviewsRemaining <= 0 || (row.state === State.New && newRemaining <= 0)) {
+						carried.push(row);
+						continue;
+					}
+					if (row.state === State.New) newRemaining--;
+					reviewsRemaining--;
+				}
+
+				const due = new Date(row.due);
+				const cardTags: string[] = row.tags ? row.tags.split(",") : [];
+				if (due < now) forecast.overdue++;
+				forecast.total++;
+				day.due++;
+				day.by_state[State[row.state as State].toLowerCase() as keyof StateCounts]++;
+				for (const tag of cardTags) {
+					day.by_tag[tag] = (day.by_tag[tag] ?? 0) + 1;
+				}
+
+				// New cards have no memory to lose yet
+				if (includeLapses && row.state !== State.New) {
+					const scheduler = await this.getScheduler(cardTags);
+					const reviewAt = new Date(Math.max(due.getTime(), dayStart.getTime(), now.getTime()));
+					day.projected_lapses! += 1 - scheduler.get_retrievability(this.toFsrsCard(row), reviewAt, false);
 				}
-			} catch (error) {
-				failed.push({
-					card_id: cardId,
-					error: error instanceof Error ? error.message : 'Unknown error',
-				});
 			}
 		}
+		forecast.held_back = carried.length;
 
-		return { successful, failed };
+		for (const day of forecast.days) {
+			if (day.projected_lapses !== undefined) {
+				day.projected_lapses = Number(day.projected_lapses.toFixed(1));
+			}
+		}
+
+		return forecast;
 	}
 
 	/**
-	 * Edit a card's instructions and/or tags
+	 * Measure true retention from the review log (share of reviews not rated Again) per tag,
+	 * card state and interval, next to the retrievability FSRS predicted at review time
+	 * Only reviews with a recorded rating count. Optionally limited to the last `days` days.
 	 */
-	async editCard(
-		cardId: number,
-		instructions?: string,
-		tags?: string[],
-	): Promise<boolean> {
-		// Check if card exists and belongs to user
-		const card = await this.db
-			.prepare("SELECT id FROM cards WHERE id = ? AND user_id = ?")
-			.bind(cardId, this.userId)
-			.first();
+	async getRetention(tags: string[] = [], days?: number): Promise<RetentionReport> {
+		let sql = `
+      SELECT h.card_id, h.state, h.due, h.stability, h.difficulty, h.elapsed_days, h.scheduled_days,
+             h.learning_steps, h.reps, h.lapses, h.last_review, h.rating, h.reviewed_at,
+             h.review_elapsed_days, h.created_at,
+             (SELECT GROUP_CONCAT(tag) FROM tags WHERE card_id = h.card_id AND user_id = ?) as tags
+      FROM review_history h
+      JOIN cards c ON h.card_id = c.id
+      WHERE h.user_id = ? AND ${CARD_NOT_TRASHED} AND h.rating IS NOT NULL
+    `;
+		const params: any[] = [this.userId, this.userId];
 
-		if (!card) {
-			return false;
+		if (days !== undefined) {
+			sql += " AND h.created_at >= datetime('now', ?)";
+			params.push(`-${days} days`);
 		}
 
-		// Update instructions if provided
-		if (instructions !== undefined) {
-			await this.db
-				.prepare("UPDATE cards SET instructions = ? WHERE id = ? AND user_id = ?")
-				.bind(instructions, cardId, this.userId)
-				.run();
+		if (tags.length > 0) {
+			const filter = this.tagFilter(tags);
+			sql += filter.sql;
+			params.push(...filter.params);
 		}
 
-		// Update tags if provided
-		if (tags !== undefined) {
-			// Delete existing tags
-			await this.db
-				.prepare("DELETE FROM tags WHERE card_id = ? AND user_id = ?")
-				.bind(cardId, this.userId)
-				.run();
+		const result = await this.db.prepare(sql).bind(...params).all();
 
-			// Insert new tags
-			if (tags.length > 0) {
-				const tagInserts = tags
-					.filter((tag) => tag.trim())
-					.map((tag) =>
-						this.db
-							.prepare("INSERT INTO tags (card_id, user_id, tag) VALUES (?, ?, ?)")
-							.bind(cardId, this.userId, tag.trim()),
-					);
-				await this.db.batch(tagInserts);
+		// Running totals per group; predicted/recalled are only summed over reviews FSRS could predict
+		type Totals = { reviews: number; recalled: number; predictedReviews: number; predicted: number; predictedRecalled: number };
+		const emptyTotals = (): Totals => ({ reviews: 0, recalled: 0, predictedReviews: 0, predicted: 0, predictedRecalled: 0 });
+		const overall = emptyTotals();
+		const sections = { tag: new Map<string, Totals>(), state: new Map<string, Totals>(), interval: new Map<string, Totals>() };
+		const add = (totals: Totals, recalled: boolean, predicted: number | null) => {
+			totals.reviews++;
+			if (recalled) totals.recalled++;
+			if (predicted !== null) {
+				totals.predictedReviews++;
+				totals.predicted += predicted;
+				if (recalled) totals.predictedRecalled++;
 			}
-		}
+		};
+		const addTo = (section: Map<string, Totals>, key: string, recalled: boolean, predicted: number | null) => {
+			if (!section.has(key)) section.set(key, emptyTotals());
+			add(section.get(key)!, recalled, predicted);
+		};
 
-		return true;
-	}
+		for (const row of result.results as any[]) {
+			const cardTags: string[] = row.tags ? row.tags.split(",") : [];
+			const reviewedAt = row.reviewed_at ? new Date(row.reviewed_at) : fromSqliteTimestamp(row.created_at);
+			const recalled = row.rating !== Rating.Again;
 
-	/**
-	 * Edit multiple cards in batch
-	 */
-	async editCardsInBatch(edits: BatchEditInput[]): Promise<BatchOperationResult<{ card_id: number }>> {
-		const successful: Array<{ card_id: number }> = [];
-		const failed: Array<{ card_id: number; error: string }> = [];
+			let predicted: number | null = null;
+			if (row.state !== State.New && row.last_review && row.stability > 0) {
+				const scheduler = await this.getScheduler(cardTags);
+				predicted = scheduler.get_retrievability(this.toFsrsCard(row), reviewedAt, false);
+			}
 
-		for (const edit of edits) {
-			try {
-				const success = await this.editCard(edit.card_id, edit.instructions, edit.tags);
-				if (success) {
-					successful.push({ card_id: edit.card_id });
-				} else {
-					failed.push({
-						card_id: edit.card_id,
-						error: 'Card not found',
-					});
-				}
-			} catch (error) {
-				failed.push({
-					card_id: edit.card_id,
-					error: error instanceof Error ? error.message : 'Unknown error',
-				});
+			add(overall, recalled, predicted);
+			addTo(sections.state, State[row.state as State], recalled, predicted);
+			addTo(sections.interval, intervalBucket(row.review_elapsed_days), recalled, predicted);
+			for (const tag of cardTags) {
+				addTo(sections.tag, tag, recalled, predicted);
 			}
 		}
 
-		return { successful, failed };
+		const toGroup = (totals: Totals): RetentionGroup => {
+			const round = (value: number) => Number(value.toFixed(3));
+			const predicted = totals.predictedReviews > 0 ? totals.predicted / totals.predictedReviews : null;
+			return {
+				reviews: totals.reviews,
+				retention: totals.reviews > 0 ? round(totals.recalled / totals.reviews) : 0,
+				predicted: predicted !== null ? round(predicted) : null,
+				difference: predicted !== null ? round(totals.predictedRecalled / totals.predictedReviews - predicted) : null,
+			};
+		};
+
+		const toGroups = (section: Map<string, Totals>, order: string[]) =>
+			Object.fromEntries(order.filter((key) => section.has(key)).map((key) => [key, toGroup(section.get(key)!)]));
+
+		return {
+			desired_retention: (await this.getSettings()).settings.desired_retention,
+			overall: toGroup(overall),
+			by_tag: toGroups(sections.tag, [...sections.tag.keys()].sort()),
+			by_state: toGroups(sections.state, ["New", "Learning", "Review", "Relearning"]),
+			by_interval: toGroups(sections.interval, INTERVAL_BUCKETS.map(([label]) => label)),
+		};
 	}
 
 	/**
@@ -633,9 +3519,9 @@ export class SpacedRepetition {
 			.prepare(
 				`SELECT COUNT(DISTINCT card_id) as count
          FROM review_history
-         WHERE user_id = ? AND created_at >= datetime('now', '-24 hours')`,
+         WHERE user_id = ? AND created_at >= datetime('now', '-24 hours') AND ${CARD_ID_NOT_TRASHED}`,
 			)
-			.bind(this.userId)
+			.bind(this.userId, this.userId)
 			.first();
 
 		return (result?.count as number) || 0;
@@ -649,57 +3535,60 @@ export class SpacedRepetition {
 			.prepare(
 				`SELECT COUNT(*) as count
          FROM review_history
-         WHERE user_id = ?`,
+         WHERE user_id = ? AND ${CARD_ID_NOT_TRASHED}`,
 			)
-			.bind(this.userId)
+			.bind(this.userId, this.userId)
 			.first();
 
 		return (result?.count as number) || 0;
 	}
 
 	/**
-	 * Calculate current streak (consecutive days with reviews)
+	 * Distinct study days (user's timezone) with at least one review, oldest first
 	 */
-	private async getCurrentStreak(): Promise<number> {
-		// Get distinct review dates ordered by date descending
+	private async getReviewDays(): Promise<string[]> {
+		// Quarter-hour buckets keep the result small while still placing every review on the
+		// right side of the day rollover (timezone offsets are multiples of 15 minutes, e.g.
+		// +5:45 in Asia/Kathmandu)
 		const result = await this.db
 			.prepare(
-				`SELECT DISTINCT DATE(created_at) as review_date
+				`SELECT DISTINCT strftime('%Y-%m-%dT%H:', created_at) ||
+                printf('%02d', CAST(strftime('%M', created_at) AS INTEGER) / 15 * 15) as bucket
          FROM review_history
-         WHERE user_id = ?
-         ORDER BY review_date DESC`,
+         WHERE user_id = ? AND ${CARD_ID_NOT_TRASHED}`,
 			)
-			.bind(this.userId)
+			.bind(this.userId, this.userId)
 			.all();
 
-		if (!result.results || result.results.length === 0) {
-			return 0;
-		}
+		const clock = await this.getClock();
+		const days = new Set(result.results.map((row) => studyDay(new Date(`${row.bucket}:00Z`), clock)));
+		return [...days].sort();
+	}
 
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-		const todayStr = today.toISOString().split('T')[0];
+	/**
+	 * Calculate current streak (consecutive days with reviews)
+	 */
+	private async getCurrentStreak(): Promise<number> {
+		const reviewDays = await this.getReviewDays();
 
-		const yesterday = new Date(today);
-		yesterday.setDate(yesterday.getDate() - 1);
-		const yesterdayStr = yesterday.toISOString().split('T')[0];
+		if (reviewDays.length === 0) {
+			return 0;
+		}
 
-		const reviewDates = result.results.map((row) => row.review_date as string);
+		const today = studyDay(new Date(), await this.getClock());
+		const yesterday = addDays(today, -1);
+		const lastDay = reviewDays[reviewDays.length - 1];
 
 		// Check if user reviewed today or yesterday (streak is active)
-		if (reviewDates[0] !== todayStr && reviewDates[0] !== yesterdayStr) {
+		if (lastDay !== today && lastDay !== yesterday) {
 			return 0; // Streak is broken
 		}
 
 		// Count consecutive days
-		let streak = 0;
-		let expectedDate = reviewDates[0] === todayStr ? today : yesterday;
-
-		for (const dateStr of reviewDates) {
-			const expectedDateStr = expectedDate.toISOString().split('T')[0];
-			if (dateStr === expectedDateStr) {
+		let streak = 1;
+		for (let i = reviewDays.length - 1; i > 0; i--) {
+			if (daysBetween(reviewDays[i - 1], reviewDays[i]) === 1) {
 				streak++;
-				expectedDate.setDate(expectedDate.getDate() - 1);
 			} else {
 				break; // Streak broken
 			}
@@ -712,35 +3601,17 @@ export class SpacedRepetition {
 	 * Calculate longest streak ever
 	 */
 	private async getLongestStreak(): Promise<number> {
-		// Get all distinct review dates ordered by date
-		const result = await this.db
-			.prepare(
-				`SELECT DISTINCT DATE(created_at) as review_date
-         FROM review_history
-         WHERE user_id = ?
-         ORDER BY review_date ASC`,
-			)
-			.bind(this.userId)
-			.all();
+		const reviewDays = await this.getReviewDays();
 
-		if (!result.results || result.results.length === 0) {
+		if (reviewDays.length === 0) {
 			return 0;
 		}
 
-		const reviewDates = result.results.map((row) => row.review_date as string);
-
 		let longestStreak = 1;
 		let currentStreak = 1;
 
-		for (let i = 1; i < reviewDates.length; i++) {
-			const prevDate = new Date(reviewDates[i - 1]);
-			const currDate = new Date(reviewDates[i]);
-
-			// Calculate difference in days
-			const diffTime = currDate.getTime() - prevDate.getTime();
-			const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-			if (diffDays === 1) {
+		for (let i = 1; i < reviewDays.length; i++) {
+			if (daysBetween(reviewDays[i - 1], reviewDays[i]) === 1) {
 				// Consecutive day
 				currentStreak++;
 				longestStreak = Math.max(longestStreak, currentStreak);
@@ -757,43 +3628,50 @@ export class SpacedRepetition {
 	 * Get statistics
 	 */
 	async getStats(tags: string[] = []): Promise<Stats> {
-		const params: any[] = [this.userId];
+		const tagParams: any[] = [];
 		let tagFilter = "";
 
 		if (tags.length > 0) {
-			const placeholders = tags.map(() => "?").join(",");
-			tagFilter = ` AND c.id IN (SELECT card_id FROM tags WHERE user_id = ? AND tag IN (${placeholders}))`;
-			params.push(this.userId, ...tags);
+			const filter = this.tagFilter(tags);
+			tagFilter = filter.sql;
+			tagParams.push(...filter.params);
 		}
 
+		const due = await this.dueFilter();
+
 		// Run all queries in parallel for better performance
 		const [
 			dueResult,
+			daily,
 			totalResult,
+			hidden,
 			cardsReviewedLast24h,
 			currentStreak,
 			longestStreak,
 			totalReviews,
 		] = await Promise.all([
-			// Count due today
+			// Count due today, by state for the daily limits
 			this.db
 				.prepare(
-					`SELECT COUNT(*) as count
+					`SELECT r.state, COUNT(*) as count
            FROM cards c
            JOIN reviews r ON c.id = r.card_id
-           WHERE c.user_id = ? AND datetime(r.due) <= datetime('now')${tagFilter}`,
+           WHERE c.user_id = ? AND ${CARD_NOT_TRASHED} AND ${due.sql} AND ${CARD_ACTIVE}${tagFilter}
+           GROUP BY r.state`,
 				)
-				.bind(...params)
-				.first(),
-			// Count total cards
+				.bind(this.userId, ...due.params, ...tagParams)
+				.all(),
+			this.getDailyLimits(),
+			// Count total cards, suspended and buried ones included
 			this.db
 				.prepare(
 					`SELECT COUNT(*) as count
            FROM cards c
-           WHERE c.user_id = ?${tagFilter}`,
+           WHERE c.user_id = ? AND ${CARD_NOT_TRASHED}${tagFilter}`,
 				)
-				.bind(...params)
+				.bind(this.userId, ...tagParams)
 				.first(),
+			this.countHiddenCards(tags),
 			// Get motivational stats
 			this.getCardsReviewedLast24Hours(),
 			this.getCurrentStreak(),
@@ -801,38 +3679,71 @@ export class SpacedRepetition {
 			this.getTotalReviews(),
 		]);
 
+		// Same rule as getDueCards: learning steps always count, reviews come before new cards
+		const dueByState = new Map(dueResult.results.map((row) => [row.state as State, row.count as number]));
+		const learningDue = (dueByState.get(State.Learning) ?? 0) + (dueByState.get(State.Relearning) ?? 0);
+		const reviewsDue = Math.min(dueByState.get(State.Review) ?? 0, daily.reviews_remaining);
+		const newDue = Math.min(dueByState.get(State.New) ?? 0, daily.new_remaining, daily.reviews_remaining - reviewsDue);
+		const dueTotal = [...dueByState.values()].reduce((sum, count) => sum + count, 0);
+
 		const stats: Stats = {
-			due_today: (dueResult?.count as number) || 0,
+			due_today: learningDue + reviewsDue + newDue,
+			held_back: dueTotal - (learningDue + reviewsDue + newDue),
+			new_remaining_today: daily.new_remaining,
+			reviews_remaining_today: daily.reviews_remaining,
 			total: (totalResult?.count as number) || 0,
 			cards_reviewed_last_24h: cardsReviewedLast24h,
 			current_streak: currentStreak,
 			longest_streak: longestStreak,
 			total_reviews: totalReviews,
+			suspended: hidden.suspended,
+			buried: hidden.buried,
+			blocked: hidden.blocked,
 		};
 
 		// Stats by tag if no specific tags requested
+		// Counts roll up: a deck's numbers include every card in its subdecks
 		if (tags.length === 0) {
-			const tagStatsResult = await this.db
-				.prepare(
-					`SELECT t.tag,
-               COUNT(DISTINCT c.id) as total_cards,
-               SUM(CASE WHEN datetime(r.due) <= datetime('now') THEN 1 ELSE 0 END) as due_cards
-         FROM tags t
-         JOIN cards c ON t.card_id = c.id
-         JOIN reviews r ON c.id = r.card_id
-         WHERE t.user_id = ?
-         GROUP BY t.tag
-         ORDER BY t.tag`,
-				)
-				.bind(this.userId)
-				.all();
+			const [tagStatsResult, decksResult] = await this.db.batch([
+				this.db
+					.prepare(
+						`SELECT t.card_id, t.tag,
+                 CASE WHEN ${due.sql} AND ${CARD_ACTIVE} THEN 1 ELSE 0 END as is_due
+           FROM tags t
+           JOIN cards c ON t.card_id = c.id
+           JOIN reviews r ON c.id = r.card_id
+           WHERE t.user_id = ? AND ${CARD_NOT_TRASHED}`,
+					)
+					.bind(...due.params, this.userId),
+				this.db.prepare("SELECT name FROM decks WHERE user_id = ?").bind(this.userId),
+			]);
+
+			const subtrees = new Map<string, { cards: Set<number>; due: Set<number> }>();
+			const subtree = (name: string) => {
+				let entry = subtrees.get(name);
+				if (!entry) {
+					entry = { cards: new Set(), due: new Set() };
+					subtrees.set(name, entry);
+				}
+				return entry;
+			};
+
+			for (const row of tagStatsResult.results as any[]) {
+				for (const path of deckPaths(row.tag)) {
+					const entry = subtree(path);
+					entry.cards.add(row.card_id);
+					if (row.is_due) entry.due.add(row.card_id);
+				}
+			}
+			// Explicitly created decks show up even while empty
+			for (const row of decksResult.results as any[]) {
+				for (const path of deckPaths(row.name)) subtree(path);
+			}
 
 			const byTag: Record<string, { total: number; due: number }> = {};
-			for (const row of tagStatsResult.results) {
-				byTag[row.tag as string] = {
-					total: (row.total_cards as number) || 0,
-					due: (row.due_cards as number) || 0,
-				};
+			for (const name of [...subtrees.keys()].sort()) {
+				const entry = subtrees.get(name)!;
+				byTag[name] = { total: entry.cards.size, due: entry.due.size };
 			}
 			stats.by_tag = byTag;
 		}
@@ -840,33 +3751,250 @@ export class SpacedRepetition {
 		return stats;
 	}
 
+	/**
+	 * Convert a reviews row to an FSRS Card object
+	 */
+	private toFsrsCard(row: any): Card {
+		return {
+			state: row.state as State,
+			due: new Date(row.due as string),
+			stability: row.stability as number,
+			difficulty: row.difficulty as number,
+			elapsed_days: row.elapsed_days as number,
+			scheduled_days: row.scheduled_days as number,
+			learning_steps: row.learning_steps as number,
+			reps: row.reps as number,
+			lapses: row.lapses as number,
+			last_review: row.last_review ? new Date(row.last_review as string) : undefined,
+		};
+	}
+
 	/**
 	 * Format a card row from database
+	 * "today"/"tomorrow" and due dates are study days in the user's timezone
 	 */
-	private formatCardRow(row: any): CardData {
-		const dueDate = new Date(row.due as string);
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-		const tomorrow = new Date(today);
-		tomorrow.setDate(tomorrow.getDate() + 1);
+	private formatCardRow(row: any, clock: DayClock): CardData {
+		const today = studyDay(new Date(), clock);
+		const dueDay = studyDay(new Date(row.due as string), clock);
 
 		let dueStr: string;
-		const dueDay = new Date(dueDate);
-		dueDay.setHours(0, 0, 0, 0);
-
-		if (dueDay.getTime() === today.getTime()) {
+		if (dueDay === today) {
 			dueStr = "today";
-		} else if (dueDay.getTime() === tomorrow.getTime()) {
+		} else if (dueDay === addDays(today, 1)) {
 			dueStr = "tomorrow";
 		} else {
-			dueStr = dueDate.toISOString().split("T")[0];
+			dueStr = dueDay;
 		}
 
 		return {
 			id: row.id as number,
 			instructions: row.instructions as string,
+			reference_answer: (row.reference_answer as string | null) ?? null,
+			rubric: (row.rubric as string | null) ?? null,
 			tags: row.tags ? (row.tags as string).split(",") : [],
 			due: dueStr,
 		};
 	}
 }
+
+/**
+ * Format a Date the way SQLite's CURRENT_TIMESTAMP does ("YYYY-MM-DD HH:MM:SS", UTC)
+ * so it compares correctly against datetime('now') and DATE() in queries
+ */
+function toSqliteTimestamp(date: Date): string {
+	return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+/**
+ * Parse a SQLite CURRENT_TIMESTAMP value (UTC without a zone suffix)
+ */
+function fromSqliteTimestamp(timestamp: string): Date {
+	return new Date(timestamp.replace(" ", "T") + "Z");
+}
+
+/**
+ * Copy the FSRS columns out of a reviews / review_history row
+ */
+function pickReviewState(row: any): ReviewState {
+	return {
+		state: row.state,
+		due: row.due,
+		stability: row.stability,
+		difficulty: row.difficulty,
+		elapsed_days: row.elapsed_days,
+		scheduled_days: row.scheduled_days,
+		learning_steps: row.learning_steps,
+		reps: row.reps,
+		lapses: row.lapses,
+		last_review: row.last_review,
+	};
+}
+
+/**
+ * Check that untrusted input looks like an AccountBackup this version can restore
+ */
+function parseBackup(data: unknown): AccountBackup {
+	const backup = data as AccountBackup;
+	if (!backup || typeof backup !== "object" || !Array.isArray(backup.cards)) {
+		throw new Error("Invalid backup: expected an object with a cards array");
+	}
+	if (typeof backup.version !== "number" || backup.version > BACKUP_VERSION) {
+		throw new Error(`Unsupported backup version ${backup.version} (this server reads up to ${BACKUP_VERSION})`);
+	}
+
+	// Checked up front so a dry run only reports cards the real run can write
+	const isDate = (value: unknown) => typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+	const isReviewState = (state: ReviewState) =>
+		isDate(state.due) &&
+		(state.last_review === null || isDate(state.last_review)) &&
+		[state.state, state.stability, state.difficulty, state.elapsed_days, state.scheduled_days, state.learning_steps, state.reps, state.lapses].every(
+			(value) => typeof value === "number" && Number.isFinite(value),
+		);
+
+	backup.cards.forEach((card, i) => {
+		if (typeof card?.instructions !== "string" || !card.instructions.trim()) {
+			throw new Error(`Invalid backup: card ${i + 1} has no instructions`);
+		}
+		if (card.created_at !== undefined && !isDate(card.created_at)) {
+			throw new Error(`Invalid backup: card ${i + 1} has an invalid created_at`);
+		}
+		if (!card.review || !isReviewState(card.review)) {
+			throw new Error(`Invalid backup: card ${i + 1} has no valid review state`);
+		}
+		if (!Array.isArray(card.tags) || !Array.isArray(card.history)) {
+			throw new Error(`Invalid backup: card ${i + 1} is missing tags or history`);
+		}
+		card.history.forEach((entry, j) => {
+			if (!entry || !isDate(entry.created_at) || !isReviewState(entry)) {
+				throw new Error(`Invalid backup: card ${i + 1} has an invalid history entry ${j + 1}`);
+			}
+		});
+	});
+
+	return backup;
+}
+
+/**
+ * Opaque page cursor: the sort key of the last card on a page
+ */
+function encodeCursor(createdAt: string, id: number): string {
+	return btoa(JSON.stringify([createdAt, id]));
+}
+
+function decodeCursor(cursor: string): { created_at: string; id: number } {
+	try {
+		const [createdAt, id] = JSON.parse(atob(cursor));
+		if (typeof createdAt === "string" && Number.isInteger(id)) {
+			return { created_at: createdAt, id };
+		}
+	} catch {
+		// Fall through to the error below
+	}
+	throw new Error("Invalid cursor");
+}
+
+/**
+ * A chain of prerequisite links leading from one card to another (both included), or null if none
+ */
+function findPrerequisitePath(edges: Map<number, number[]>, from: number, to: number): number[] | null {
+	const visited = new Set<number>();
+	const walk = (id: number): number[] | null => {
+		if (id === to) return [id];
+		if (visited.has(id)) return null;
+		visited.add(id);
+		for (const next of edges.get(id) ?? []) {
+			const path = walk(next);
+			if (path) return [id, ...path];
+		}
+		return null;
+	};
+	return walk(from);
+}
+
+/**
+ * Every deck a tag belongs to, from the top: "cs::algorithms::graphs" gives
+ * ["cs", "cs::algorithms", "cs::algorithms::graphs"]
+ */
+function deckPaths(tag: string): string[] {
+	const levels = tag.split(DECK_SEPARATOR);
+	return levels.map((_, i) => levels.slice(0, i + 1).join(DECK_SEPARATOR));
+}
+
+/**
+ * Trim a tag name, and each level of it when it's a deck path ("cs :: algorithms")
+ * Names that aren't valid deck paths, like "c++::", are kept as plain tags
+ */
+function normalizeTagName(name: string): string {
+	const tag = name.trim();
+	if (!tag) {
+		throw new Error("Tag name can't be empty");
+	}
+	const levels = tag.split(DECK_SEPARATOR).map((level) => level.trim());
+	return levels.every((level) => level) ? levels.join(DECK_SEPARATOR) : tag;
+}
+
+/**
+ * Trim each level of a deck name and reject empty levels ("cs::" or "::algorithms")
+ */
+function normalizeDeckName(name: string): string {
+	const levels = name.split(DECK_SEPARATOR).map((level) => level.trim());
+	if (levels.some((level) => !level)) {
+		throw new Error(`Invalid deck name '${name}'`);
+	}
+	return levels.join(DECK_SEPARATOR);
+}
+
+// Interval buckets for retention analytics: label and upper bound in days since the previous review
+const INTERVAL_BUCKETS: Array<[string, number]> = [
+	["first review", 0],
+	["< 1 day", 1],
+	["1-7 days", 7],
+	["7-30 days", 30],
+	["30-90 days", 90],
+	["90+ days", Infinity],
+];
+
+/**
+ * Bucket label for the days since the previous review (null = the card's first review)
+ */
+function intervalBucket(elapsedDays: number | null): string {
+	if (elapsedDays === null) return INTERVAL_BUCKETS[0][0];
+	return INTERVAL_BUCKETS.slice(1).find(([, max]) => elapsedDays < max)![0];
+}
+
+/**
+ * Whether a card that just lapsed for the given time should be flagged as a leech
+ * Like Anki: at the threshold, then again every half threshold (8, 12, 16, ... by default)
+ */
+function isLeech(lapses: number, threshold: number): boolean {
+	if (lapses < threshold) return false;
+	return (lapses - threshold) % Math.max(Math.ceil(threshold / 2), 1) === 0;
+}
+
+// A card_versions row as a CardVersion (tags are stored as a JSON array)
+function parseVersion(row: any): CardVersion {
+	return {
+		instructions: row.instructions,
+		reference_answer: row.reference_answer,
+		rubric: row.rubric,
+		tags: JSON.parse(row.tags),
+	};
+}
+
+/**
+ * Fields that differ between two versions of a card (tags compared as sets)
+ */
+function diffVersions(before: CardVersion, after: CardVersion): CardChanges {
+	const changes: CardChanges = {};
+
+	for (const field of ["instructions", "reference_answer", "rubric"] as const) {
+		if ((before[field] ?? null) !== (after[field] ?? null)) {
+			changes[field] = { before: before[field], after: after[field] } as Change<string>;
+		}
+	}
+	if ([...before.tags].sort().join(",") !== [...after.tags].sort().join(",")) {
+		changes.tags = { before: before.tags, after: after.tags };
+	}
+
+	return changes;
+}
@@ -0,0 +1,98 @@
+/**
+ * Study-day arithmetic in a user's timezone
+ *
+ * A study day starts at `rolloverHour` local time rather than at midnight (Anki's "next day
+ * starts at" setting), so a late-night session still counts towards the day it started on.
+ * Days are identified by their local calendar date, "YYYY-MM-DD".
+ */
+
+export interface DayClock {
+	timeZone: string; // IANA name, e.g. "America/Los_Angeles"
+	rolloverHour: number; // 0-23, local hour at which a new study day starts
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether the runtime knows the IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * The timezone's offset from UTC at the given instant, in milliseconds (negative west of UTC)
+ */
+function timeZoneOffset(date: Date, timeZone: string): number {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+			second: "2-digit",
+		});
+		formatters.set(timeZone, formatter);
+	}
+
+	const parts: Record<string, number> = {};
+	for (const { type, value } of formatter.formatToParts(date)) {
+		if (type !== "literal") parts[type] = Number(value);
+	}
+	const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+	return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The study day (local date) an instant falls on
+ */
+export function studyDay(date: Date, clock: DayClock): string {
+	const shifted = new Date(date.getTime() - clock.rolloverHour * HOUR_MS);
+	return new Date(shifted.getTime() + timeZoneOffset(shifted, clock.timeZone)).toISOString().split("T")[0];
+}
+
+/**
+ * The instant a study day starts (its local date at the rollover hour)
+ */
+export function startOfStudyDay(day: string, clock: DayClock): Date {
+	const [year, month, date] = day.split("-").map(Number);
+	const local = Date.UTC(year, month - 1, date, clock.rolloverHour);
+
+	// The offset depends on the instant we're solving for - two passes settle it across DST changes
+	let instant = local - timeZoneOffset(new Date(local), clock.timeZone);
+	instant = local - timeZoneOffset(new Date(instant), clock.timeZone);
+	return new Date(instant);
+}
+
+/**
+ * The instant the study day after the given instant's day starts
+ */
+export function startOfNextStudyDay(date: Date, clock: DayClock): Date {
+	return startOfStudyDay(addDays(studyDay(date, clock), 1), clock);
+}
+
+/**
+ * Shift a "YYYY-MM-DD" date by whole days
+ */
+export function addDays(day: string, days: number): string {
+	return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().split("T")[0];
+}
+
+/**
+ * Whole days from one "YYYY-MM-DD" date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
@@ -94,3 +94,34 @@ export type Props = {
 	email: string;
 	accessToken: string;
 };
+
+/**
+ * Decodes a base64 string into bytes (used for file uploads passed through MCP tool arguments).
+ *
+ * @param {string} base64 - The base64-encoded data. A "data:...;base64," prefix is ignored.
+ *
+ * @returns {Uint8Array} The decoded bytes.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+	const binaryString = atob(base64.replace(/^data:[^,]*,/, "").replace(/\s/g, ""));
+	const bytes = new Uint8Array(binaryString.length);
+	for (let i = 0; i < binaryString.length; i++) {
+		bytes[i] = binaryString.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Encodes bytes as base64 (used to return files through MCP tool results).
+ *
+ * @param {Uint8Array} bytes - The data to encode.
+ *
+ * @returns {string} The base64-encoded data.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+	let binaryString = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binaryString);
+}
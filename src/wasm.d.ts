@@ -0,0 +1,7 @@
+// Wrangler bundles .wasm imports as precompiled WebAssembly modules
+// (Workers can't compile WebAssembly from raw bytes at runtime)
+// See: https://developers.cloudflare.com/workers/runtime-apis/webassembly/
+declare module "*.wasm" {
+	const module: WebAssembly.Module;
+	export default module;
+}